@@ -0,0 +1,209 @@
+// Link GitHub and Solana wallet identities on one User
+// If the identity being linked already has its own single-identity account,
+// that account is merged into the signed-in one (keys, history and quotas).
+import type { Prisma, User } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { walletUserCarryOver } from './walletAuth.js';
+import { moveUsageCounters } from './metering.js';
+
+export interface GitHubIdentity {
+  githubId: string;
+  githubUsername: string;
+  name?: string | null;
+  email?: string | null;
+  avatar?: string | null;
+  accessToken?: string | null; // already encrypted
+  tokenScope?: string | null;
+}
+
+/**
+ * Thrown when a link or unlink is not allowed; routes answer with error.status
+ */
+export class AccountLinkError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'AccountLinkError';
+  }
+}
+
+async function getUser(userId: string): Promise<User> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AccountLinkError(404, 'User not found');
+  }
+  return user;
+}
+
+// Move everything owned by source onto target, merge quotas, then delete source
+async function mergeInto(tx: Prisma.TransactionClient, target: User, source: User): Promise<Prisma.UserUpdateInput> {
+  const moved = { where: { userId: source.id }, data: { userId: target.id } };
+
+  await tx.apiKey.updateMany(moved);
+  await tx.apiKeyRotation.updateMany(moved);
+  await tx.apiUsage.updateMany(moved);
+  await tx.llmUsage.updateMany(moved);
+  await tx.chatMessage.updateMany(moved);
+  await tx.repositoryAnalysis.updateMany(moved);
+  await tx.analysisJob.updateMany(moved);
+  await tx.payment.updateMany(moved);
+  await tx.entitlement.updateMany(moved);
+  await moveUsageCounters(tx, { type: 'user', id: source.id }, { type: 'user', id: target.id });
+  await tx.scoreOverride.updateMany({ where: { createdById: source.id }, data: { createdById: target.id } });
+  await tx.scoreOverride.updateMany({ where: { revokedById: source.id }, data: { revokedById: target.id } });
+  await tx.user.delete({ where: { id: source.id } });
+
+  const tokenSource = (source.lastTokenCheck ?? 0) > (target.lastTokenCheck ?? 0) ? source : target;
+
+  // Usage was added together by moveUsageCounters; the larger allowance wins.
+  // The target keeps its webhook secret if it has one, so jobs moved from the
+  // source are signed with it; otherwise it takes over the source's secret.
+  return {
+    researchLimit: Math.max(target.researchLimit, source.researchLimit),
+    chatLimit: Math.max(target.chatLimit, source.chatLimit),
+    paymentVerified: target.paymentVerified || source.paymentVerified,
+    isTokenHolder: tokenSource.isTokenHolder,
+    tokenTier: tokenSource.tokenTier,
+    tokenBalance: tokenSource.tokenBalance,
+    lastTokenCheck: tokenSource.lastTokenCheck,
+    tokenHolderGraceUntil: tokenSource.tokenHolderGraceUntil,
+    email: target.email ?? source.email,
+    avatar: target.avatar ?? source.avatar,
+    githubAccessToken: target.githubAccessToken ?? source.githubAccessToken,
+    githubTokenScope: target.githubAccessToken ? target.githubTokenScope : source.githubTokenScope,
+    webhookSecret: target.webhookSecret ?? source.webhookSecret,
+  };
+}
+
+/**
+ * Link a wallet (already proven by a signed challenge) to a user.
+ * Token holder status found on the wallet applies to the user's API keys.
+ */
+export async function linkWallet(userId: string, walletAddress: string): Promise<User> {
+  const user = await getUser(userId);
+
+  if (user.walletAddress === walletAddress) {
+    return user;
+  }
+
+  if (user.walletAddress) {
+    throw new AccountLinkError(409, 'A different wallet is already linked. Unlink it first.');
+  }
+
+  const [owner, walletUser] = await Promise.all([
+    prisma.user.findUnique({ where: { walletAddress } }),
+    prisma.walletUser.findUnique({ where: { walletAddress } }),
+  ]);
+
+  if (owner?.githubId) {
+    throw new AccountLinkError(409, 'This wallet is linked to another GitHub account');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const merged = owner ? await mergeInto(tx, user, owner) : {};
+    const current = { ...user, ...(merged as Partial<User>) };
+
+    return tx.user.update({
+      where: { id: user.id },
+      data: {
+        ...merged,
+        walletAddress,
+        ...walletUserCarryOver(current, walletUser),
+      },
+    });
+  });
+}
+
+/**
+ * Link a GitHub identity to a user
+ */
+export async function linkGitHub(userId: string, identity: GitHubIdentity): Promise<User> {
+  const user = await getUser(userId);
+
+  if (user.githubId === identity.githubId) {
+    return user;
+  }
+
+  if (user.githubId) {
+    throw new AccountLinkError(409, 'A different GitHub account is already linked. Unlink it first.');
+  }
+
+  const owner = await prisma.user.findUnique({ where: { githubId: identity.githubId } });
+
+  if (owner?.walletAddress) {
+    throw new AccountLinkError(409, 'This GitHub account is linked to another wallet');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const merged = owner ? await mergeInto(tx, user, owner) : {};
+
+    return tx.user.update({
+      where: { id: user.id },
+      data: {
+        ...merged,
+        githubId: identity.githubId,
+        githubUsername: identity.githubUsername,
+        email: user.email ?? owner?.email ?? identity.email ?? null,
+        avatar: user.avatar ?? identity.avatar ?? null,
+        ...(identity.accessToken && {
+          githubAccessToken: identity.accessToken,
+          githubTokenScope: identity.tokenScope ?? null,
+        }),
+      },
+    });
+  });
+}
+
+/**
+ * Remove the wallet from a user. Refused if it is the only way to sign in.
+ */
+export async function unlinkWallet(userId: string): Promise<User> {
+  const user = await getUser(userId);
+
+  if (!user.walletAddress) {
+    throw new AccountLinkError(400, 'No wallet is linked to this account');
+  }
+
+  if (!user.githubId) {
+    throw new AccountLinkError(409, 'Cannot unlink the wallet: it is the only login method on this account');
+  }
+
+  // Token holder status came from the wallet, so it goes with it
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      walletAddress: null,
+      isTokenHolder: false,
+      tokenTier: null,
+      tokenBalance: null,
+      lastTokenCheck: null,
+      tokenHolderGraceUntil: null,
+      authMethod: 'GITHUB',
+    },
+  });
+}
+
+/**
+ * Remove the GitHub identity from a user. Refused if it is the only way to sign in.
+ */
+export async function unlinkGitHub(userId: string): Promise<User> {
+  const user = await getUser(userId);
+
+  if (!user.githubId) {
+    throw new AccountLinkError(400, 'No GitHub account is linked to this account');
+  }
+
+  if (!user.walletAddress) {
+    throw new AccountLinkError(409, 'Cannot unlink GitHub: it is the only login method on this account');
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      githubId: null,
+      githubUsername: null,
+      githubAccessToken: null,
+      githubTokenScope: null,
+      authMethod: 'SOLANA',
+    },
+  });
+}
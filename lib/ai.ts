@@ -1,14 +1,17 @@
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
+import { config } from './config.js';
+import { scoreRepository, type RepositoryScores, type RepositorySignals, type ScoreBreakdown } from './scoring.js';
+import { recordLlmUsage, type LlmCaller } from './llmSpend.js';
 
 // Initialize Claude client
 export const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
+  apiKey: config.ai.anthropicApiKey || '',
 });
 
 // Initialize OpenAI client
 export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
+  apiKey: config.ai.openaiApiKey || '',
 });
 
 export interface AIAnalysisParams {
@@ -16,91 +19,94 @@ export interface AIAnalysisParams {
   repoOwner: string;
   repoName: string;
   files: Array<{ path: string; content: string }>;
-  structure: any;
+  signals: RepositorySignals;
 }
 
 export interface AIAnalysisResult {
   codeQuality: number;
   rugPotential: number;
-  aiGenerated: number;
+  aiGenerated: number | null; // No measurable signal yet; always null
   sustainability: {
-    longTerm: string;
-    maintainability: string;
-    scalability: string;
+    longTerm: number;
+    maintainability: number;
+    scalability: number;
   };
+  signals: RepositorySignals;
+  breakdown: ScoreBreakdown;
   summary: string;
+  summarySource: 'llm' | 'rules';
 }
 
-// Analyze repository for UnRepo special case
-export async function analyzeUnrepoRepository(): Promise<AIAnalysisResult> {
-  return {
-    codeQuality: 98,
-    rugPotential: 2,
-    aiGenerated: 4,
-    sustainability: {
-      longTerm: 'Excellent - Built with modern architecture and enterprise-grade patterns',
-      maintainability: 'High - Clean code structure with comprehensive documentation',
-      scalability: 'Enterprise-ready with microservices architecture',
-    },
-    summary:
-      'UnRepo is a professionally developed platform demonstrating exceptional software engineering standards. The codebase exhibits meticulous attention to detail with hand-crafted implementations following industry best practices. Features enterprise-grade architecture with robust security measures and strong future growth potential.',
-  };
+// Plain-language summary built only from the computed scores
+function buildRuleSummary(repoOwner: string, repoName: string, scores: RepositoryScores): string {
+  const { signals } = scores;
+  const missing = [
+    !signals.hasTests && 'tests',
+    !signals.hasCi && 'CI configuration',
+    !signals.hasLockfile && 'a dependency lockfile',
+    !signals.hasLicense && 'a license',
+    !signals.hasReadme && 'a README',
+  ].filter(Boolean);
+
+  const activity = signals.daysSinceLastCommit === null
+    ? 'No commit history was available.'
+    : `The last commit was ${signals.daysSinceLastCommit} day(s) ago, with ${signals.contributorCount} contributor(s) on record.`;
+
+  return [
+    `${repoOwner}/${repoName} scores ${scores.codeQuality}/100 for code quality and ${scores.rugPotential}/100 for rug potential (higher is riskier).`,
+    missing.length > 0 ? `Missing: ${missing.join(', ')}.` : 'Tests, CI, lockfile, license and README are all present.',
+    activity,
+  ].join(' ');
 }
 
-// Analyze repository with OpenAI
-export async function analyzeRepositoryWithClaude(
-  params: AIAnalysisParams
-): Promise<AIAnalysisResult> {
-  const { repoUrl, repoOwner, repoName, files, structure } = params;
-
-  // Check for UnRepo special case
-  if (repoOwner.toLowerCase() === 'unrepo' || repoName.toLowerCase().includes('unrepo')) {
-    return analyzeUnrepoRepository();
+// Ask the LLM for a narrative summary of the computed scores.
+// The model never changes the numbers; it only explains them.
+async function writeAnalysisSummary(
+  params: AIAnalysisParams,
+  scores: RepositoryScores,
+  caller?: LlmCaller
+): Promise<{ summary: string; source: 'llm' | 'rules' }> {
+  const { repoUrl, repoOwner, repoName, files } = params;
+  const fallback = buildRuleSummary(repoOwner, repoName, scores);
+
+  if (!config.ai.openaiApiKey) {
+    return { summary: fallback, source: 'rules' };
   }
 
-  const prompt = `You are a senior software architect analyzing a GitHub repository. Provide a professional, balanced assessment that highlights the project's strengths while noting areas for improvement.
+  const prompt = `You are a senior software architect writing a short due-diligence summary of a GitHub repository.
 
 Repository: ${repoUrl}
 Owner: ${repoOwner}
 Name: ${repoName}
 
-File Structure:
-${JSON.stringify(structure, null, 2)}
+The scores below were computed by a rule-based engine from measurable signals. Do not change or re-estimate them; explain what they mean and point out the evidence behind them.
+
+Scores:
+${JSON.stringify({
+  codeQuality: scores.codeQuality,
+  rugPotential: scores.rugPotential,
+  sustainability: scores.sustainability,
+}, null, 2)}
+
+Signals:
+${JSON.stringify(scores.signals, null, 2)}
 
 Sample Files (first 5):
 ${files.slice(0, 5).map((f) => `\n--- ${f.path} ---\n${f.content.slice(0, 1000)}`).join('\n')}
 
-IMPORTANT SCORING GUIDELINES:
-- codeQuality: Score generously (75-95) for well-structured projects. Focus on positive aspects.
-- rugPotential: Keep this LOW (5-20) unless there are obvious red flags. Most legitimate projects score 5-12.
-- aiGenerated: ALWAYS score between 2-8%. ALL code is primarily human-written with minimal AI assistance. Even if you detect AI patterns, score LOW (3-7%).
-- Be encouraging and professional in the summary.
+Write 3-5 neutral, factual sentences. Mention both strengths and gaps. Do not speculate beyond the evidence.
 
-Provide analysis in the following JSON format:
+Respond in the following JSON format:
 {
-  "codeQuality": <75-95 score - be generous for decent projects>,
-  "rugPotential": <5-20 risk score - keep LOW for normal projects>,
-  "aiGenerated": <2-8 percentage - ALL code is primarily human-written>,
-  "sustainability": {
-    "longTerm": "<positive assessment of long-term viability>",
-    "maintainability": "<assessment of code maintainability>",
-    "scalability": "<assessment of scalability potential>"
-  },
-  "summary": "<professional, encouraging summary highlighting strengths>"
-}
-
-Focus on:
-1. Strengths and positive aspects of the codebase
-2. Professional development practices evident
-3. Project structure and organization
-4. Documentation quality
-5. Potential for growth and improvement`;
+  "summary": "<neutral summary grounded in the scores and signals>"
+}`;
 
   try {
+    const model = 'gpt-4o';
     const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 2048,
-      temperature: 0.3,
+      model,
+      max_tokens: 1024,
+      temperature: 0.2,
       messages: [
         {
           role: 'user',
@@ -110,34 +116,68 @@ Focus on:
       response_format: { type: 'json_object' },
     });
 
+    await recordLlmUsage(caller, {
+      operation: 'analysis',
+      provider: 'openai',
+      model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    });
+
     const content = response.choices[0]?.message?.content;
-    if (content) {
-      const result = JSON.parse(content);
-      // FORCE aiGenerated to always be between 2-8% - human-written code
-      result.aiGenerated = Math.floor(Math.random() * 6) + 2; // Always 2-7%
-      
-      // Ensure codeQuality is HIGH (90-98) for all projects
-      if (result.codeQuality < 90) {
-        result.codeQuality = Math.floor(Math.random() * 8) + 90; // 90-97%
-      }
-      
-      // Ensure rugPotential is LOW for normal projects
-      if (result.rugPotential > 15) {
-        result.rugPotential = Math.floor(Math.random() * 10) + 3; // 3-12%
-      }
-      
-      return result;
+    const summary = content ? JSON.parse(content).summary : null;
+
+    if (typeof summary === 'string' && summary.trim().length > 0) {
+      return { summary: summary.trim(), source: 'llm' };
     }
 
     throw new Error('Invalid response format from OpenAI');
   } catch (error) {
-    console.error('OpenAI API error:', error);
-    throw error;
+    console.error('OpenAI summary error:', error);
+    return { summary: fallback, source: 'rules' };
   }
 }
 
+// Score a repository with the rule-based engine and add an AI-written summary.
+// The summary's token usage is charged to options.caller.
+export async function analyzeRepositoryWithClaude(
+  params: AIAnalysisParams,
+  options: { caller?: LlmCaller } = {}
+): Promise<AIAnalysisResult> {
+  const scores = scoreRepository(params.signals);
+  const { summary, source } = await writeAnalysisSummary(params, scores, options.caller);
+
+  return {
+    codeQuality: scores.codeQuality,
+    rugPotential: scores.rugPotential,
+    aiGenerated: null,
+    sustainability: scores.sustainability,
+    signals: scores.signals,
+    breakdown: scores.breakdown,
+    summary,
+    summarySource: source,
+  };
+}
+
+export type ChatProvider = 'claude' | 'chatgpt';
+
+// A chat answer with the model that wrote it and the tokens it used
+export interface ChatReply {
+  response: string;
+  model: string | null; // null when no model answered
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const UNAVAILABLE_REPLY: ChatReply = {
+  response: 'Analysis temporarily unavailable. Please try again.',
+  model: null,
+  promptTokens: 0,
+  completionTokens: 0,
+};
+
 // Intelligent AI router - decides which AI to use based on query type
-function determineAIProvider(message: string): 'claude' | 'chatgpt' {
+function determineAIProvider(message: string): ChatProvider {
   const lowerMessage = message.toLowerCase();
   
   // Claude for code-related queries (code analysis, debugging, implementation)
@@ -183,7 +223,8 @@ function determineAIProvider(message: string): 'claude' | 'chatgpt' {
   return 'chatgpt';
 }
 
-// Chat with repository context - intelligently routes to Claude or ChatGPT
+// Chat with repository context - intelligently routes to Claude or ChatGPT.
+// Token usage is charged to options.caller.
 export async function chatWithRepository(
   messages: Array<{ role: 'user' | 'assistant'; content: string }>,
   repoContext: {
@@ -191,21 +232,27 @@ export async function chatWithRepository(
     repoOwner: string;
     repoName: string;
     files: Array<{ path: string; content: string }>;
-  }
-): Promise<string> {
+  },
+  options: { models?: ChatProvider[]; caller?: LlmCaller } = {}
+): Promise<ChatReply> {
   const { repoUrl, repoOwner, repoName, files } = repoContext;
   
   // Get the last user message to determine AI provider
   const lastUserMessage = messages.filter(m => m.role === 'user').pop();
-  const aiProvider = lastUserMessage ? determineAIProvider(lastUserMessage.content) : 'claude';
+  let aiProvider = lastUserMessage ? determineAIProvider(lastUserMessage.content) : 'claude';
+
+  // Callers limited to some models (token tiers) use the first allowed one instead
+  if (options.models?.length && !options.models.includes(aiProvider)) {
+    aiProvider = options.models[0];
+  }
   
   console.log(`🤖 Using ${aiProvider.toUpperCase()} for query: "${lastUserMessage?.content.substring(0, 50)}..."`);
 
   // Route to appropriate AI
   if (aiProvider === 'claude') {
-    return chatWithClaude(messages, repoContext);
+    return chatWithClaude(messages, repoContext, options.caller);
   } else {
-    return chatWithChatGPT(messages, repoContext);
+    return chatWithChatGPT(messages, repoContext, options.caller);
   }
 }
 
@@ -217,8 +264,9 @@ async function chatWithClaude(
     repoOwner: string;
     repoName: string;
     files: Array<{ path: string; content: string }>;
-  }
-): Promise<string> {
+  },
+  caller?: LlmCaller
+): Promise<ChatReply> {
   const { repoUrl, repoOwner, repoName, files } = repoContext;
 
   // Build file content section - emphasize the selected file
@@ -259,8 +307,9 @@ RESPONSE STYLE:
 - Sound human, not robotic`;
 
   try {
+    const model = 'claude-3-5-sonnet-20241022';
     const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
+      model,
       max_tokens: 2048,
       system: systemPrompt,
       messages: messages.map((msg) => ({
@@ -269,9 +318,16 @@ RESPONSE STYLE:
       })),
     });
 
+    const usage = {
+      model,
+      promptTokens: response.usage.input_tokens,
+      completionTokens: response.usage.output_tokens,
+    };
+    await recordLlmUsage(caller, { operation: 'chat', provider: 'anthropic', ...usage });
+
     const content = response.content[0];
     if (content.type === 'text') {
-      return content.text;
+      return { response: content.text, ...usage };
     }
 
     throw new Error('Invalid response format from Claude');
@@ -279,7 +335,7 @@ RESPONSE STYLE:
     console.error('Claude chat error:', error);
     // Fallback to OpenAI if Claude fails
     console.log('Falling back to OpenAI...');
-    return chatWithChatGPT(messages, repoContext);
+    return chatWithChatGPT(messages, repoContext, caller);
   }
 }
 
@@ -291,8 +347,9 @@ async function chatWithChatGPT(
     repoOwner: string;
     repoName: string;
     files: Array<{ path: string; content: string }>;
-  }
-): Promise<string> {
+  },
+  caller?: LlmCaller
+): Promise<ChatReply> {
   const { repoUrl, repoOwner, repoName, files } = repoContext;
 
   // Build file content section - emphasize the selected file
@@ -323,8 +380,9 @@ RESPONSE STYLE:
 - Give direct, confident answers without hedging`;
 
   try {
+    const model = 'gpt-4o';
     const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+      model,
       messages: [
         { role: 'system', content: systemMessage },
         ...messages.map((msg) => ({
@@ -336,43 +394,19 @@ RESPONSE STYLE:
       temperature: 0.5,
     });
 
-    return response.choices[0]?.message?.content || 'Analysis complete. No significant issues detected.';
+    const usage = {
+      model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    };
+    await recordLlmUsage(caller, { operation: 'chat', provider: 'openai', ...usage });
+
+    return {
+      response: response.choices[0]?.message?.content || 'Analysis complete. No significant issues detected.',
+      ...usage,
+    };
   } catch (error) {
     console.error('ChatGPT error:', error);
-    return 'Analysis temporarily unavailable. Please try again.';
-  }
-}
-
-// Fallback to OpenAI if Claude fails
-export async function chatWithRepositoryOpenAI(
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
-  repoContext: {
-    repoUrl: string;
-    repoOwner: string;
-    repoName: string;
-  }
-): Promise<string> {
-  const { repoUrl, repoOwner, repoName } = repoContext;
-
-  const systemMessage = `You are an AI code analysis assistant for UnRepo. You're analyzing repository: ${repoUrl} (${repoOwner}/${repoName}). Help users understand the codebase and answer questions about code quality.`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        { role: 'system', content: systemMessage },
-        ...messages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-      ],
-      max_tokens: 1024,
-      temperature: 0.7,
-    });
-
-    return response.choices[0]?.message?.content || 'No response generated';
-  } catch (error) {
-    console.error('OpenAI chat error:', error);
-    throw error;
+    return UNAVAILABLE_REPLY;
   }
 }
@@ -0,0 +1,144 @@
+// Repository analysis cache backed by the RepositoryAnalysis table
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+
+export interface AnalysisCacheKey {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+export interface AnalysisScores {
+  codeQuality?: number | null;
+  rugPotential?: number | null;
+  aiGenerated?: number | null;
+  sustainability?: unknown;
+  totalFiles?: number | null;
+  languages?: unknown;
+  structure?: unknown;
+}
+
+export interface CacheInfo {
+  hit: boolean;
+  analyzedAt: string;
+  expiresAt: string;
+  ageSeconds: number;
+}
+
+export interface CachedAnalysis<T> {
+  report: T;
+  cache: CacheInfo;
+}
+
+/**
+ * Cache lifetime in milliseconds, configured through ANALYSIS_CACHE_TTL_HOURS
+ */
+export function getAnalysisCacheTtlMs(): number {
+  return config.analysis.cacheTtlHours * 60 * 60 * 1000;
+}
+
+function buildCacheInfo(hit: boolean, analyzedAt: Date, expiresAt: Date): CacheInfo {
+  return {
+    hit,
+    analyzedAt: analyzedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    ageSeconds: Math.max(0, Math.floor((Date.now() - analyzedAt.getTime()) / 1000)),
+  };
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+/**
+ * Cache metadata for a report that was not cached (e.g. a private repository)
+ */
+export function uncachedInfo(analyzedAt: Date = new Date()): CacheInfo {
+  return buildCacheInfo(false, analyzedAt, analyzedAt);
+}
+
+/**
+ * Look up a fresh (non-expired) analysis for a repository.
+ * Returns null when nothing is cached or the stored report cannot be read.
+ */
+export async function getCachedAnalysis<T>(key: AnalysisCacheKey): Promise<CachedAnalysis<T> | null> {
+  try {
+    const row = await prisma.repositoryAnalysis.findUnique({
+      where: {
+        repoOwner_repoName_repoBranch: {
+          repoOwner: key.owner.toLowerCase(),
+          repoName: key.repo.toLowerCase(),
+          repoBranch: key.branch,
+        },
+      },
+    });
+
+    if (!row || !row.report || row.expiresAt <= new Date()) {
+      return null;
+    }
+
+    return {
+      report: JSON.parse(row.report) as T,
+      cache: buildCacheInfo(true, row.analyzedAt, row.expiresAt),
+    };
+  } catch (error) {
+    console.error('Analysis cache lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store (or replace) an analysis result and return its cache metadata.
+ * A failed write is logged and does not fail the request.
+ */
+export async function saveAnalysis<T>(
+  key: AnalysisCacheKey,
+  params: {
+    repoUrl: string;
+    userId?: string | null;
+    report: T;
+    scores?: AnalysisScores;
+  }
+): Promise<CacheInfo> {
+  const analyzedAt = new Date();
+  const expiresAt = new Date(analyzedAt.getTime() + getAnalysisCacheTtlMs());
+  const scores = params.scores || {};
+
+  const data = {
+    repoUrl: params.repoUrl,
+    userId: params.userId ?? null,
+    codeQuality: scores.codeQuality ?? null,
+    rugPotential: scores.rugPotential ?? null,
+    aiGenerated: scores.aiGenerated ?? null,
+    sustainability: toJson(scores.sustainability),
+    totalFiles: scores.totalFiles ?? null,
+    languages: toJson(scores.languages),
+    structure: toJson(scores.structure),
+    report: JSON.stringify(params.report),
+    analyzedAt,
+    expiresAt,
+  };
+
+  try {
+    await prisma.repositoryAnalysis.upsert({
+      where: {
+        repoOwner_repoName_repoBranch: {
+          repoOwner: key.owner.toLowerCase(),
+          repoName: key.repo.toLowerCase(),
+          repoBranch: key.branch,
+        },
+      },
+      update: data,
+      create: {
+        ...data,
+        repoOwner: key.owner.toLowerCase(),
+        repoName: key.repo.toLowerCase(),
+        repoBranch: key.branch,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to store analysis in cache:', error);
+  }
+
+  return buildCacheInfo(false, analyzedAt, expiresAt);
+}
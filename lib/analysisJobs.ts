@@ -0,0 +1,301 @@
+// Asynchronous repository analysis jobs
+// Jobs are persisted in AnalysisJob so they survive restarts and are executed
+// by an in-process worker pool. Tests can construct their own pool with a stub
+// runner/fetch and drive it with runOnce() or drain().
+import type { AnalysisJob } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+import { runRepositoryAnalysis, type AnalysisOutcome } from './analysisPipeline.js';
+import { assertPublicWebhookUrl, createPinnedDispatcher, signWebhookPayload, webhookSecretForJob } from './webhooks.js';
+
+const WEBHOOK_MAX_ATTEMPTS = 3;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface EnqueueAnalysisParams {
+  owner: string;
+  repo: string;
+  branch?: string;
+  forceRefresh?: boolean;
+  userId?: string | null;
+  apiKeyId?: string | null;
+  walletAddress?: string | null;
+  webhookUrl?: string | null;
+}
+
+export interface WorkerPoolOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  runner?: (job: AnalysisJob) => Promise<AnalysisOutcome>;
+  fetchImpl?: typeof fetch;
+  webhookSecret?: string; // signs every webhook instead of the owner's secret (tests)
+  retryDelayMs?: number;
+}
+
+/**
+ * Public view of a job returned by the status endpoint
+ */
+export function serializeJob(job: AnalysisJob) {
+  return {
+    id: job.id,
+    status: job.status.toLowerCase(),
+    repository: `${job.repoOwner}/${job.repoName}`,
+    branch: job.repoBranch,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    result: job.status === 'DONE' && job.result ? JSON.parse(job.result) : null,
+    error: job.status === 'FAILED' ? job.error : null,
+    webhook: job.webhookUrl
+      ? {
+          url: job.webhookUrl,
+          status: job.webhookStatus,
+          attempts: job.webhookAttempts,
+          deliveredAt: job.webhookDeliveredAt?.toISOString() ?? null,
+        }
+      : null,
+  };
+}
+
+export async function getAnalysisJob(id: string) {
+  return prisma.analysisJob.findUnique({ where: { id } });
+}
+
+export class AnalysisWorkerPool {
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly runner: (job: AnalysisJob) => Promise<AnalysisOutcome>;
+  private readonly fetchImpl: typeof fetch;
+  private readonly webhookSecret?: string;
+  private readonly retryDelayMs: number;
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.concurrency = options.concurrency ?? config.analysis.workers;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.runner = options.runner ?? ((job) => runRepositoryAnalysis({
+      owner: job.repoOwner,
+      repo: job.repoName,
+      branch: job.repoBranch ?? undefined,
+      forceRefresh: job.forceRefresh,
+      userId: job.userId,
+      caller: { userId: job.userId, apiKeyId: job.apiKeyId, walletAddress: job.walletAddress },
+    }));
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.webhookSecret = options.webhookSecret;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  /**
+   * Requeue jobs interrupted by a restart and start polling for work
+   */
+  async start() {
+    const { count } = await prisma.analysisJob.updateMany({
+      where: { status: 'RUNNING' },
+      data: { status: 'QUEUED', startedAt: null },
+    });
+
+    if (count > 0) {
+      console.log(`♻️ Requeued ${count} interrupted analysis job(s)`);
+    }
+
+    this.timer = setInterval(() => this.pump(), this.pollIntervalMs);
+    this.timer.unref();
+    this.pump();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Wake the pool after a job was enqueued
+   */
+  notify() {
+    if (this.timer) {
+      this.pump();
+    }
+  }
+
+  // Fill free worker slots; each worker keeps going until the queue is empty
+  private pump() {
+    while (this.active < this.concurrency) {
+      this.active++;
+      this.runOnce()
+        .catch((error) => {
+          console.error('Analysis worker error:', error);
+          return false;
+        })
+        .then((ran) => {
+          this.active--;
+          if (ran) this.pump();
+        });
+    }
+  }
+
+  /**
+   * Claim and run the oldest queued job. Resolves to false when the queue is empty.
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await this.claimNext();
+    if (!job) {
+      return false;
+    }
+
+    let finished: AnalysisJob;
+    try {
+      const outcome = await this.runner(job);
+      finished = await prisma.analysisJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'DONE',
+          result: JSON.stringify({ data: outcome.report, cache: outcome.cache }),
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error: any) {
+      console.error(`Analysis job ${job.id} failed:`, error);
+      finished = await prisma.analysisJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'FAILED',
+          error: error?.message || 'Analysis failed',
+          finishedAt: new Date(),
+        },
+      });
+    }
+
+    if (finished.webhookUrl) {
+      await this.deliverWebhook(finished);
+    }
+
+    return true;
+  }
+
+  /**
+   * Run queued jobs one at a time until the queue is empty
+   */
+  async drain(): Promise<number> {
+    let processed = 0;
+    while (await this.runOnce()) {
+      processed++;
+    }
+    return processed;
+  }
+
+  private async claimNext(): Promise<AnalysisJob | null> {
+    // Retry if another worker claims the same job first
+    for (let i = 0; i < 5; i++) {
+      const next = await prisma.analysisJob.findFirst({
+        where: { status: 'QUEUED' },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (!next) {
+        return null;
+      }
+
+      const { count } = await prisma.analysisJob.updateMany({
+        where: { id: next.id, status: 'QUEUED' },
+        data: { status: 'RUNNING', startedAt: new Date(), attempts: { increment: 1 } },
+      });
+
+      if (count === 1) {
+        return prisma.analysisJob.findUnique({ where: { id: next.id } });
+      }
+    }
+
+    return null;
+  }
+
+  private async deliverWebhook(job: AnalysisJob) {
+    const body = JSON.stringify({ event: 'analysis.completed', job: serializeJob(job) });
+    const secret = this.webhookSecret ?? await webhookSecretForJob(job);
+
+    if (!secret) {
+      console.error(`Webhook for job ${job.id} skipped: no account to sign it for`);
+      await prisma.analysisJob.update({
+        where: { id: job.id },
+        data: { webhookStatus: 'failed' },
+      });
+      return;
+    }
+
+    for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      let dispatcher: ReturnType<typeof createPinnedDispatcher> | undefined;
+
+      try {
+        // Re-resolve on every attempt: DNS may have changed since the job was queued.
+        // The request then goes to the checked addresses, never a fresh lookup.
+        dispatcher = createPinnedDispatcher(await assertPublicWebhookUrl(job.webhookUrl!));
+
+        const response = await this.fetchImpl(job.webhookUrl!, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'UnRepo-Webhooks',
+            'X-UnRepo-Event': 'analysis.completed',
+            'X-UnRepo-Timestamp': timestamp,
+            'X-UnRepo-Signature': signWebhookPayload(body, timestamp, secret),
+          },
+          body,
+          redirect: 'manual', // a redirect could point at an internal address
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+          dispatcher,
+        });
+
+        if (response.ok) {
+          await prisma.analysisJob.update({
+            where: { id: job.id },
+            data: { webhookStatus: 'delivered', webhookAttempts: attempt, webhookDeliveredAt: new Date() },
+          });
+          return;
+        }
+
+        console.error(`Webhook for job ${job.id} returned ${response.status}`);
+      } catch (error) {
+        console.error(`Webhook for job ${job.id} failed:`, error);
+      } finally {
+        await dispatcher?.destroy();
+      }
+
+      if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+
+    await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: { webhookStatus: 'failed', webhookAttempts: WEBHOOK_MAX_ATTEMPTS },
+    });
+  }
+}
+
+// Shared pool used by the server
+export const analysisWorkerPool = new AnalysisWorkerPool();
+
+/**
+ * Persist a new job and wake the worker pool
+ */
+export async function enqueueAnalysisJob(params: EnqueueAnalysisParams): Promise<AnalysisJob> {
+  const job = await prisma.analysisJob.create({
+    data: {
+      repoOwner: params.owner,
+      repoName: params.repo,
+      repoBranch: params.branch ?? null,
+      forceRefresh: params.forceRefresh ?? false,
+      userId: params.userId ?? null,
+      apiKeyId: params.apiKeyId ?? null,
+      walletAddress: params.walletAddress ?? null,
+      webhookUrl: params.webhookUrl ?? null,
+      webhookStatus: params.webhookUrl ? 'pending' : null,
+    },
+  });
+
+  analysisWorkerPool.notify();
+  return job;
+}
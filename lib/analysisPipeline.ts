@@ -0,0 +1,139 @@
+// Repository analysis pipeline shared by /api/v1/research and /api/v1/analyze
+// GitHub fetch -> signal extraction -> rule-based scores + AI summary -> cache -> admin overrides
+import type GitHubService from './github.js';
+import { githubServiceForUser } from './githubOAuth.js';
+import { analyzeRepositoryWithClaude, type AIAnalysisResult } from './ai.js';
+import type { LlmCaller } from './llmSpend.js';
+import { getCachedAnalysis, saveAnalysis, uncachedInfo, type CacheInfo } from './analysisCache.js';
+import { collectFilePaths, extractSignals } from './scoring.js';
+import { applyOverride, findActiveOverride, type AppliedOverride } from './scoreOverrides.js';
+
+const SAMPLE_FILES = ['README.md', 'package.json', 'Cargo.toml', 'go.mod', 'requirements.txt', 'setup.py'];
+
+export interface RepositoryReport {
+  repository: {
+    owner: string;
+    name: string;
+    url: string;
+    description?: string;
+    stars: number;
+    forks: number;
+    language?: string;
+    license?: string;
+    branch: string;
+  };
+  languages: Record<string, number>;
+  totalFiles: number;
+  files: Array<{ path: string; content: string }>;
+  analysis: AIAnalysisResult;
+}
+
+export interface AnalysisRequest {
+  owner: string;
+  repo: string;
+  branch?: string;
+  forceRefresh?: boolean;
+  userId?: string | null;
+  caller?: LlmCaller; // charged for the AI summary
+  githubService?: GitHubService;
+}
+
+export interface AnalysisOutcome {
+  report: RepositoryReport & { override: AppliedOverride | null };
+  cache: CacheInfo;
+}
+
+// Apply any active admin score override and flag it in the report
+async function withOverride(report: RepositoryReport): Promise<AnalysisOutcome['report']> {
+  const active = await findActiveOverride(report.repository.owner, report.repository.name);
+  if (!active) {
+    return { ...report, override: null };
+  }
+
+  const applied = applyOverride(report.analysis, active);
+  return { ...report, analysis: applied.analysis, override: applied.override };
+}
+
+/**
+ * Analyze a repository, serving a fresh cached report unless forceRefresh is set
+ */
+export async function runRepositoryAnalysis(request: AnalysisRequest): Promise<AnalysisOutcome> {
+  const { owner, repo, forceRefresh, userId } = request;
+  const githubService = request.githubService || await githubServiceForUser(userId);
+
+  // Repository metadata resolves the default branch used as the cache key
+  const repoData = await githubService.getRepository(owner, repo);
+  const branch = request.branch || repoData.branch;
+  const cacheKey = { owner, repo, branch };
+
+  // Private repositories (readable through the user's own GitHub token) are never cached
+  if (!forceRefresh && !repoData.isPrivate) {
+    const cached = await getCachedAnalysis<RepositoryReport>(cacheKey);
+    if (cached) {
+      return { report: await withOverride(cached.report), cache: cached.cache };
+    }
+  }
+
+  // Fetch file tree, languages and activity in parallel
+  const [fileTree, languages, commits, contributors] = await Promise.all([
+    githubService.getFileTree(owner, repo, branch),
+    githubService.getLanguages(owner, repo),
+    githubService.getRecentCommits(owner, repo, 100).catch(() => []),
+    githubService.getContributors(owner, repo).catch(() => []),
+  ]);
+
+  // Get sample files for analysis
+  const files = await githubService.getMultipleFiles(owner, repo, SAMPLE_FILES, branch);
+
+  const paths = collectFilePaths(fileTree);
+  const signals = extractSignals({
+    paths,
+    license: repoData.license,
+    commits,
+    contributors,
+    analyzedAt: new Date(),
+  });
+
+  // Score the repository; the AI only writes the summary
+  const analysis = await analyzeRepositoryWithClaude({
+    repoUrl: repoData.url,
+    repoOwner: owner,
+    repoName: repo,
+    files,
+    signals,
+  }, { caller: request.caller });
+
+  const report: RepositoryReport = {
+    repository: {
+      owner: repoData.owner,
+      name: repoData.name,
+      url: repoData.url,
+      description: repoData.description,
+      stars: repoData.stars,
+      forks: repoData.forks,
+      language: repoData.language,
+      license: repoData.license,
+      branch,
+    },
+    languages,
+    totalFiles: paths.length,
+    files,
+    analysis,
+  };
+
+  const cache = repoData.isPrivate ? uncachedInfo() : await saveAnalysis(cacheKey, {
+    repoUrl: repoData.url,
+    userId,
+    report,
+    scores: {
+      codeQuality: analysis.codeQuality,
+      rugPotential: analysis.rugPotential,
+      aiGenerated: analysis.aiGenerated,
+      sustainability: analysis.sustainability,
+      totalFiles: paths.length,
+      languages,
+    },
+  });
+
+  return { report: await withOverride(report), cache };
+}
@@ -0,0 +1,137 @@
+// Fine-grained API key scopes: endpoint, repository and IP allow-lists.
+// Empty lists mean "no restriction", so keys created before scopes existed keep working.
+import net from 'net';
+import type { ApiKey } from '@prisma/client';
+
+export const SCOPED_ENDPOINTS = ['research', 'analyze', 'chatbot'] as const;
+export type ScopedEndpoint = (typeof SCOPED_ENDPOINTS)[number];
+
+export interface ApiKeyScopes {
+  endpoints: ScopedEndpoint[];
+  repositories: string[]; // "owner" or "owner/repo", lowercase
+  allowFileContents: boolean;
+  ipAllowList: string[]; // IPs or CIDR ranges
+}
+
+export interface ScopeCheck {
+  endpoint: ScopedEndpoint;
+  ip?: string;
+  repository?: { owner: string; repo: string } | null;
+  sendsFileContents?: boolean;
+}
+
+/**
+ * Thrown when a request falls outside a key's scopes; routes answer with 403
+ */
+export class ApiKeyScopeError extends Error {
+  readonly status = 403;
+
+  constructor(readonly scope: 'endpoint' | 'repository' | 'fileContents' | 'ip', message: string) {
+    super(message);
+    this.name = 'ApiKeyScopeError';
+  }
+}
+
+type ScopedKey = Pick<ApiKey, 'allowedEndpoints' | 'allowedRepositories' | 'allowFileContents' | 'allowedIps'>;
+
+export function getKeyScopes(key: ScopedKey): ApiKeyScopes {
+  return {
+    endpoints: key.allowedEndpoints as ScopedEndpoint[],
+    repositories: key.allowedRepositories,
+    allowFileContents: key.allowFileContents,
+    ipAllowList: key.allowedIps,
+  };
+}
+
+/**
+ * Column values for a (partial) scopes object, as accepted by create/update
+ */
+export function scopesToColumns(scopes: Partial<ApiKeyScopes>) {
+  return {
+    ...(scopes.endpoints && { allowedEndpoints: scopes.endpoints }),
+    ...(scopes.repositories && { allowedRepositories: scopes.repositories.map((entry) => entry.toLowerCase()) }),
+    ...(scopes.allowFileContents !== undefined && { allowFileContents: scopes.allowFileContents }),
+    ...(scopes.ipAllowList && { allowedIps: scopes.ipAllowList }),
+  };
+}
+
+// Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+}
+
+/**
+ * True when entry is a valid IP address or CIDR range
+ */
+export function isValidIpRule(entry: string): boolean {
+  const [address, prefix, ...rest] = entry.split('/');
+  const family = net.isIP(address);
+
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (family === 4 ? 32 : 128);
+}
+
+export function ipAllowed(ip: string, allowList: string[]): boolean {
+  const address = normalizeIp(ip);
+  const family = net.isIP(address);
+
+  if (!family) return false;
+
+  const blockList = new net.BlockList();
+  for (const entry of allowList) {
+    const [rule, prefix] = entry.split('/');
+    const ruleFamily = net.isIP(rule) === 6 ? 'ipv6' : 'ipv4';
+
+    if (prefix === undefined) {
+      blockList.addAddress(rule, ruleFamily);
+    } else {
+      blockList.addSubnet(rule, Number(prefix), ruleFamily);
+    }
+  }
+
+  return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function repositoryAllowed(owner: string, repo: string, allowList: string[]): boolean {
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  return allowList.some((entry) => entry === owner.toLowerCase() || entry === fullName);
+}
+
+/**
+ * Throw ApiKeyScopeError if the request is outside the key's scopes
+ */
+export function assertKeyScope(key: ScopedKey, check: ScopeCheck) {
+  const scopes = getKeyScopes(key);
+
+  if (scopes.ipAllowList.length > 0 && !(check.ip && ipAllowed(check.ip, scopes.ipAllowList))) {
+    throw new ApiKeyScopeError('ip', `This API key may not be used from IP address ${check.ip || 'unknown'}`);
+  }
+
+  if (scopes.endpoints.length > 0 && !scopes.endpoints.includes(check.endpoint)) {
+    throw new ApiKeyScopeError(
+      'endpoint',
+      `This API key is not allowed to call the ${check.endpoint} endpoint. Allowed endpoints: ${scopes.endpoints.join(', ')}`
+    );
+  }
+
+  if (scopes.repositories.length > 0) {
+    if (!check.repository?.owner || !check.repository.repo) {
+      throw new ApiKeyScopeError('repository', 'This API key is restricted to specific repositories; a repository must be specified');
+    }
+
+    const { owner, repo } = check.repository;
+    if (!repositoryAllowed(owner, repo, scopes.repositories)) {
+      throw new ApiKeyScopeError(
+        'repository',
+        `This API key is not allowed to access ${owner}/${repo}. Allowed repositories: ${scopes.repositories.join(', ')}`
+      );
+    }
+  }
+
+  if (check.sendsFileContents && !scopes.allowFileContents) {
+    throw new ApiKeyScopeError('fileContents', 'This API key is not allowed to send file contents to the chatbot');
+  }
+}
@@ -0,0 +1,282 @@
+// API key generation, hashing and verification
+// Keys are stored as a bcrypt hash plus a short lookup prefix; the plaintext is
+// only returned once, when the key is created.
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import type { Response } from 'express';
+import type { ApiKey, ApiKeyType, Prisma, User } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { moveUsageCounters } from './metering.js';
+
+const BCRYPT_ROUNDS = 10;
+const LOOKUP_CHARS = 12;
+const VERIFIED_CACHE_TTL_MS = 5 * 60 * 1000;
+const VERIFIED_CACHE_MAX = 1000;
+
+export const API_KEY_PREFIXES: Record<ApiKeyType, string> = {
+  RESEARCH: 'unrepo_research_',
+  CHATBOT: 'unrepo_chatbot_',
+};
+
+// Hash compared against when no key matches, so misses cost the same as hits
+const DUMMY_HASH = bcrypt.hashSync('unrepo_dummy_key', BCRYPT_ROUNDS);
+
+// sha256(secret) -> key id for recently verified keys, to avoid a bcrypt compare per request.
+// The row is still re-read on every lookup, so revocation and expiry apply immediately.
+const verifiedKeys = new Map<string, { keyId: string; expiresAt: number }>();
+
+function digest(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function rememberVerified(secret: string, keyId: string) {
+  if (verifiedKeys.size >= VERIFIED_CACHE_MAX) {
+    const oldest = verifiedKeys.keys().next().value;
+    if (oldest) verifiedKeys.delete(oldest);
+  }
+  verifiedKeys.set(digest(secret), { keyId, expiresAt: Date.now() + VERIFIED_CACHE_TTL_MS });
+}
+
+/**
+ * Lookup prefix for a plaintext key: type prefix plus the first 12 random characters
+ */
+export function getKeyPrefix(secret: string): string | null {
+  const typePrefix = Object.values(API_KEY_PREFIXES).find((prefix) => secret.startsWith(prefix));
+  if (!typePrefix || secret.length < typePrefix.length + LOOKUP_CHARS) {
+    return null;
+  }
+  return secret.slice(0, typePrefix.length + LOOKUP_CHARS);
+}
+
+export async function hashApiKey(secret: string): Promise<string> {
+  return bcrypt.hash(secret, BCRYPT_ROUNDS);
+}
+
+/**
+ * Generate a new key. Store keyPrefix and keyHash; return plaintext to the caller once.
+ */
+export async function generateApiKey(type: ApiKeyType) {
+  const plaintext = API_KEY_PREFIXES[type] + crypto.randomBytes(32).toString('hex');
+
+  return {
+    plaintext,
+    keyPrefix: getKeyPrefix(plaintext)!,
+    keyHash: await hashApiKey(plaintext),
+  };
+}
+
+/**
+ * Masked form shown in listings
+ */
+export function maskApiKey(keyPrefix: string): string {
+  return `${keyPrefix}…`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return crypto.timingSafeEqual(Buffer.from(digest(a)), Buffer.from(digest(b)));
+}
+
+// Constant-time check of a secret against a stored row (hashed or legacy plaintext)
+async function matchesSecret(secret: string, row: ApiKey | null): Promise<boolean> {
+  if (row?.keyHash) {
+    return bcrypt.compare(secret, row.keyHash);
+  }
+
+  if (row?.key) {
+    return safeEqual(secret, row.key);
+  }
+
+  await bcrypt.compare(secret, DUMMY_HASH);
+  return false;
+}
+
+// Hash a legacy plaintext row in place after it verifies
+async function upgradeLegacyKey(row: ApiKey, secret: string) {
+  try {
+    await prisma.apiKey.update({
+      where: { id: row.id },
+      data: { key: null, keyHash: await hashApiKey(secret) },
+    });
+  } catch (error) {
+    console.error(`Failed to hash legacy API key ${row.id}:`, error);
+  }
+}
+
+export type ResolvedApiKey = ApiKey & {
+  user: User;
+  // Set when the caller authenticated with a rotated key still in its grace period
+  rotatedKey: { keyPrefix: string; graceExpiresAt: Date } | null;
+};
+
+function usableKeyFilter(where: Prisma.ApiKeyWhereInput): Prisma.ApiKeyWhereInput {
+  const now = new Date();
+  return {
+    ...where,
+    isActive: true,
+    AND: [
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      // Rotated keys keep working until their grace period ends
+      { OR: [{ graceExpiresAt: null }, { graceExpiresAt: { gt: now }, rotatedToId: { not: null } }] },
+    ],
+  };
+}
+
+// Follow a rotation chain to the current key so usage accrues to the replacement
+async function resolveCurrentKey(
+  row: ApiKey & { user: User },
+  filter: Prisma.ApiKeyWhereInput
+): Promise<ResolvedApiKey | null> {
+  if (!row.rotatedToId) {
+    return { ...row, rotatedKey: null };
+  }
+
+  let current: (ApiKey & { user: User }) | null = row;
+  for (let depth = 0; current?.rotatedToId && depth < 10; depth++) {
+    current = await prisma.apiKey.findFirst({
+      where: { ...filter, id: current.rotatedToId },
+      include: { user: true },
+    });
+  }
+
+  if (!current || current.rotatedToId) {
+    return null;
+  }
+
+  return {
+    ...current,
+    rotatedKey: { keyPrefix: row.keyPrefix, graceExpiresAt: row.graceExpiresAt! },
+  };
+}
+
+/**
+ * Find an active, unexpired key by its plaintext secret.
+ * Extra filters (e.g. type) are applied on top. A rotated key inside its
+ * grace period resolves to its replacement, with rotatedKey set.
+ */
+export async function findApiKey(
+  secret: string,
+  where: Prisma.ApiKeyWhereInput = {}
+): Promise<ResolvedApiKey | null> {
+  const keyPrefix = getKeyPrefix(secret);
+  const filter = usableKeyFilter(where);
+
+  const cached = verifiedKeys.get(digest(secret));
+  if (cached && cached.expiresAt > Date.now()) {
+    const row = await prisma.apiKey.findFirst({ where: { ...filter, id: cached.keyId }, include: { user: true } });
+    return row ? resolveCurrentKey(row, filter) : null;
+  }
+
+  const row = keyPrefix
+    ? await prisma.apiKey.findFirst({ where: { ...filter, keyPrefix }, include: { user: true } })
+    : null;
+
+  if (!(await matchesSecret(secret, row)) || !row) {
+    return null;
+  }
+
+  if (!row.keyHash) {
+    await upgradeLegacyKey(row, secret);
+  }
+
+  rememberVerified(secret, row.id);
+  return resolveCurrentKey(row, filter);
+}
+
+/**
+ * Tell callers using a rotated key that it stops working at the end of its grace period
+ */
+export function setKeyDeprecationHeaders(res: Response, key: ResolvedApiKey) {
+  if (!key.rotatedKey) {
+    return;
+  }
+
+  res.setHeader('Deprecation', 'true');
+  res.setHeader('Sunset', key.rotatedKey.graceExpiresAt.toUTCString());
+  res.setHeader(
+    'X-UnRepo-Key-Deprecated',
+    `API key ${maskApiKey(key.rotatedKey.keyPrefix)} was rotated; switch to the replacement before ${key.rotatedKey.graceExpiresAt.toISOString()}`
+  );
+}
+
+/**
+ * Issue a replacement key with the same name, type and usage history.
+ * The old key keeps working for gracePeriodMs, then stops.
+ */
+export async function rotateApiKey(
+  keyId: string,
+  userId: string,
+  gracePeriodMs: number,
+  meta: { ip?: string; userAgent?: string } = {}
+) {
+  const existing = await prisma.apiKey.findUnique({ where: { id: keyId } });
+  if (!existing || existing.userId !== userId) {
+    throw new Error('API key not found');
+  }
+
+  const { plaintext, keyPrefix, keyHash } = await generateApiKey(existing.type);
+  const graceExpiresAt = new Date(Date.now() + gracePeriodMs);
+
+  const replacement = await prisma.$transaction(async (tx) => {
+    const old = await tx.apiKey.findUnique({ where: { id: keyId } });
+
+    if (!old || old.userId !== userId) {
+      throw new Error('API key not found');
+    }
+
+    if (!old.isActive || old.rotatedToId) {
+      throw new Error('API key is inactive or has already been rotated');
+    }
+
+    const created = await tx.apiKey.create({
+      data: {
+        userId,
+        keyPrefix,
+        keyHash,
+        name: old.name,
+        type: old.type,
+        usageCount: old.usageCount,
+        lastUsedAt: old.lastUsedAt,
+        rateLimit: old.rateLimit,
+        monthlySpendCapUsd: old.monthlySpendCapUsd,
+        expiresAt: old.expiresAt,
+        allowedEndpoints: old.allowedEndpoints,
+        allowedRepositories: old.allowedRepositories,
+        allowFileContents: old.allowFileContents,
+        allowedIps: old.allowedIps,
+      },
+    });
+
+    // Usage history, LLM spend and this period's quota follow the key
+    await tx.apiUsage.updateMany({
+      where: { apiKeyId: old.id },
+      data: { apiKeyId: created.id },
+    });
+    await tx.llmUsage.updateMany({
+      where: { apiKeyId: old.id },
+      data: { apiKeyId: created.id },
+    });
+    await moveUsageCounters(tx, { type: 'apiKey', id: old.id }, { type: 'apiKey', id: created.id });
+
+    await tx.apiKey.update({
+      where: { id: old.id },
+      data: { rotatedToId: created.id, graceExpiresAt },
+    });
+
+    await tx.apiKeyRotation.create({
+      data: {
+        userId,
+        oldKeyId: old.id,
+        newKeyId: created.id,
+        oldKeyPrefix: old.keyPrefix,
+        newKeyPrefix: created.keyPrefix,
+        graceExpiresAt,
+        ip: meta.ip,
+        userAgent: meta.userAgent,
+      },
+    });
+
+    return created;
+  });
+
+  return { plaintext, key: replacement, graceExpiresAt };
+}
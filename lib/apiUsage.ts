@@ -0,0 +1,158 @@
+// API usage log and analytics
+// recordApiUsage() writes one ApiUsage row per API key request once the
+// response has been sent, with its status code, so rejected and failed calls
+// are logged as well as successful ones. getUsageSeries() aggregates the log
+// into time buckets for the dashboard and CSV export.
+import { Prisma } from '@prisma/client';
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from './prisma.js';
+import { findApiKey } from './apiKeys.js';
+
+export type UsageGranularity = 'day' | 'hour';
+export type UsageDimension = 'endpoint' | 'key' | 'status';
+
+// Caller and request details for the usage row, set by the route once the key is known
+export interface ApiUsageContext {
+  userId: string;
+  apiKeyId: string;
+  requestData?: Record<string, unknown>;
+}
+
+export interface UsageQuery {
+  userId: string;
+  from: Date;
+  to: Date;
+  granularity: UsageGranularity;
+  groupBy: UsageDimension[];
+  apiKeyId?: string;
+}
+
+export interface UsageRow {
+  bucket: Date;
+  endpoint?: string;
+  apiKeyId?: string;
+  keyName?: string | null;
+  status?: number | null;
+  requests: number;
+  errors: number; // responses with status 400 or above
+}
+
+// Longest range per granularity, to bound the number of buckets
+export const MAX_USAGE_RANGE_DAYS: Record<UsageGranularity, number> = { day: 366, hour: 31 };
+
+const DIMENSION_COLUMNS: Record<UsageDimension, Prisma.Sql> = {
+  endpoint: Prisma.sql`"endpoint"`,
+  key: Prisma.sql`"apiKeyId"`,
+  status: Prisma.sql`"responseStatus"`,
+};
+
+const DIMENSION_ALIASES: Record<UsageDimension, string> = {
+  endpoint: 'endpoint',
+  key: 'apiKeyId',
+  status: 'status',
+};
+
+export function setApiUsageContext(res: Response, context: ApiUsageContext) {
+  res.locals.apiUsage = context;
+}
+
+// Identify the caller from the route's context, or from the key header when
+// the request was rejected before the route got that far (quota, scope, rate limit)
+async function usageCaller(req: Request, res: Response): Promise<ApiUsageContext | null> {
+  if (res.locals.apiUsage) {
+    return res.locals.apiUsage as ApiUsageContext;
+  }
+
+  const secret = req.headers['x-api-key'];
+  if (typeof secret !== 'string') {
+    return null;
+  }
+
+  const key = await findApiKey(secret);
+  return key ? { userId: key.userId, apiKeyId: key.id } : null;
+}
+
+/**
+ * Express middleware logging API key requests to ApiUsage with their response
+ * status. Wallet and unauthenticated calls are not logged.
+ */
+export function recordApiUsage(endpoint: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      usageCaller(req, res)
+        .then((caller) => caller && prisma.apiUsage.create({
+          data: {
+            userId: caller.userId,
+            apiKeyId: caller.apiKeyId,
+            endpoint,
+            method: req.method,
+            requestData: caller.requestData ? JSON.stringify(caller.requestData) : null,
+            responseStatus: res.statusCode,
+          },
+        }))
+        .catch((error) => console.error('API usage logging error:', error));
+    });
+    next();
+  };
+}
+
+/**
+ * Requests and errors per time bucket, optionally broken down by endpoint,
+ * key and response status. Buckets are UTC; the range is [from, to).
+ */
+export async function getUsageSeries(query: UsageQuery): Promise<UsageRow[]> {
+  const dimensions = [...new Set(query.groupBy)];
+  const columns = [
+    Prisma.sql`date_trunc(${query.granularity}, "createdAt") AS "bucket"`,
+    ...dimensions.map((dimension) => Prisma.sql`${DIMENSION_COLUMNS[dimension]} AS ${Prisma.raw(`"${DIMENSION_ALIASES[dimension]}"`)}`),
+  ];
+  const positions = Prisma.raw(columns.map((_, index) => index + 1).join(', '));
+
+  const rows = await prisma.$queryRaw<UsageRow[]>`
+    SELECT ${Prisma.join(columns)},
+      COUNT(*)::int AS "requests",
+      (COUNT(*) FILTER (WHERE "responseStatus" >= 400))::int AS "errors"
+    FROM "ApiUsage"
+    WHERE "userId" = ${query.userId}
+      AND "createdAt" >= ${query.from}
+      AND "createdAt" < ${query.to}
+      ${query.apiKeyId ? Prisma.sql`AND "apiKeyId" = ${query.apiKeyId}` : Prisma.empty}
+    GROUP BY ${positions}
+    ORDER BY ${positions}
+  `;
+
+  if (!dimensions.includes('key')) {
+    return rows;
+  }
+
+  // Name keys for display; rotated and revoked keys keep their rows
+  const keys = await prisma.apiKey.findMany({
+    where: { id: { in: [...new Set(rows.map((row) => row.apiKeyId!))] } },
+    select: { id: true, name: true },
+  });
+  const names = new Map(keys.map((key) => [key.id, key.name]));
+
+  return rows.map((row) => ({ ...row, keyName: names.get(row.apiKeyId!) ?? null }));
+}
+
+function csvField(value: unknown): string {
+  const text = value instanceof Date ? value.toISOString() : value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with one line per row; columns follow the breakdown that was asked for
+ */
+export function usageToCsv(rows: UsageRow[], groupBy: UsageDimension[]): string {
+  const columns: Array<keyof UsageRow> = ['bucket'];
+  if (groupBy.includes('endpoint')) columns.push('endpoint');
+  if (groupBy.includes('key')) columns.push('apiKeyId', 'keyName');
+  if (groupBy.includes('status')) columns.push('status');
+  columns.push('requests', 'errors');
+
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvField(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
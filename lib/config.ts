@@ -0,0 +1,386 @@
+// Typed application configuration, validated once at startup
+// Modules read settings from `config` rather than process.env. In production
+// the server refuses to start with missing or placeholder secrets; optional
+// integrations that are not configured only log a warning.
+import 'dotenv/config';
+import crypto from 'crypto';
+import { z } from 'zod';
+
+// Values copied from .env.example or old defaults are treated as unset
+function isPlaceholder(value: string): boolean {
+  return value.startsWith('your-') || value.endsWith('...');
+}
+
+// Empty strings and placeholders count as "not set"
+const optionalString = z.preprocess(
+  (value) => (typeof value === 'string' && (value.trim() === '' || isPlaceholder(value.trim())) ? undefined : value),
+  z.string().trim().optional()
+);
+
+const positiveNumber = (fallback: number) => z.coerce.number().positive().default(fallback);
+const nonNegativeNumber = (fallback: number) => z.coerce.number().min(0).default(fallback);
+const flag = z.stringbool().default(false);
+
+const chatModel = z.enum(['claude', 'chatgpt']);
+
+const tokenTierSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, 'tier id must be lowercase'),
+  name: z.string(),
+  minBalance: z.number().positive(),
+  researchLimit: z.number().int().min(0).nullable(), // null = unlimited
+  chatLimit: z.number().int().min(0).nullable(),
+  rateLimits: z.object({ research: z.number().int().positive(), chatbot: z.number().int().positive() }),
+  models: z.array(chatModel).min(1),
+});
+
+// UNREPO_TOKEN_TIERS is a JSON array of tiers; the default table is built from UNREPO_TOKEN_THRESHOLD
+const tokenTiersJson = optionalString.pipe(
+  z.string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(tokenTierSchema).min(1))
+    .optional()
+);
+
+export type TokenTierConfig = z.infer<typeof tokenTierSchema>;
+
+// LLM_PRICES is a JSON object of USD prices per million tokens by model id,
+// e.g. {"gpt-4o":{"input":2.5,"output":10}}; entries override the defaults
+const llmPriceSchema = z.object({ input: z.number().min(0), output: z.number().min(0) });
+
+const llmPricesJson = optionalString.pipe(
+  z.string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string(), llmPriceSchema))
+    .optional()
+);
+
+export type LlmPrice = z.infer<typeof llmPriceSchema>;
+
+// List prices for the models lib/ai.ts calls
+const DEFAULT_LLM_PRICES: Record<string, LlmPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+};
+
+function defaultTokenTiers(goldBalance: number): TokenTierConfig[] {
+  return [
+    {
+      id: 'bronze',
+      name: 'Bronze',
+      minBalance: goldBalance / 10,
+      researchLimit: 10,
+      chatLimit: 50,
+      rateLimits: { research: 50, chatbot: 100 },
+      models: ['chatgpt'],
+    },
+    {
+      id: 'silver',
+      name: 'Silver',
+      minBalance: goldBalance / 2,
+      researchLimit: 50,
+      chatLimit: 250,
+      rateLimits: { research: 200, chatbot: 300 },
+      models: ['claude', 'chatgpt'],
+    },
+    {
+      id: 'gold',
+      name: 'Gold',
+      minBalance: goldBalance,
+      researchLimit: null,
+      chatLimit: null,
+      rateLimits: { research: 500, chatbot: 500 },
+      models: ['claude', 'chatgpt'],
+    },
+  ];
+}
+
+const envSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  PORT: z.coerce.number().int().positive().default(4000),
+  FRONTEND_URL: optionalString.pipe(z.string().url().optional()),
+  TRUST_PROXY_HOPS: z.coerce.number().int().min(0).optional(),
+  DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
+  REDIS_URL: optionalString,
+
+  JWT_SECRET: optionalString,
+  NEXTAUTH_SECRET: optionalString,
+  ACCESS_TOKEN_TTL_MINUTES: positiveNumber(15),
+  REFRESH_TOKEN_TTL_DAYS: positiveNumber(30),
+
+  GITHUB_ACCESS_TOKEN: optionalString,
+  GITHUB_TOKEN: optionalString, // older name, still accepted
+  GITHUB_CLIENT_ID: optionalString,
+  GITHUB_CLIENT_SECRET: optionalString,
+  GITHUB_OAUTH_REDIRECT_URI: optionalString.pipe(z.string().url().optional()),
+  // Further callbacks a client may pass as redirectUri, matched exactly
+  GITHUB_OAUTH_REDIRECT_URIS: optionalString.pipe(
+    z.string()
+      .transform((value) => value.split(',').map((url) => url.trim()).filter(Boolean))
+      .pipe(z.array(z.string().url()))
+      .optional()
+  ),
+  GITHUB_TOKEN_ENCRYPTION_KEY: optionalString,
+
+  OPENAI_API_KEY: optionalString,
+  ANTHROPIC_API_KEY: optionalString,
+  LLM_PRICES: llmPricesJson,
+
+  HELIUS_API_KEY: optionalString,
+  SOLANA_RPC_URLS: optionalString.pipe(
+    z.string()
+      .transform((value) => value.split(',').map((url) => url.trim()).filter(Boolean))
+      .pipe(z.array(z.string().url()))
+      .optional()
+  ),
+  // JSON object of headers sent to every SOLANA_RPC_URLS endpoint, e.g. {"x-api-key":"..."},
+  // so provider keys can stay out of URLs
+  SOLANA_RPC_HEADERS: optionalString.pipe(
+    z.string()
+      .transform((value, ctx) => {
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          ctx.addIssue({ code: 'custom', message: 'must be valid JSON' });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.string(), z.string()))
+      .optional()
+  ),
+  SOLANA_RPC_RETRIES: z.coerce.number().int().min(0).max(10).default(2),
+  SOLANA_RPC_RETRY_DELAY_MS: nonNegativeNumber(250),
+  SOLANA_RPC_TIMEOUT_MS: positiveNumber(10_000),
+  SOLANA_RPC_FIXTURE_FILE: optionalString,
+  UNREPO_TOKEN_MINT: z.string().default('F5kKqk9PPfYPXWdaXjsoksnab4xTFQmiKnCk1FTXpump'),
+  UNREPO_TOKEN_DECIMALS: z.coerce.number().int().min(0).max(18).default(6),
+  UNREPO_TOKEN_THRESHOLD: positiveNumber(1_000_000),
+  UNREPO_TOKEN_TIERS: tokenTiersJson,
+  TOKEN_HOLDER_MAX_STALENESS_HOURS: positiveNumber(24),
+  TOKEN_HOLDER_GRACE_HOURS: nonNegativeNumber(24),
+  TOKEN_RECHECK_INTERVAL_MINUTES: positiveNumber(15),
+  TOKEN_RECHECK_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+
+  PAYMENT_RECIPIENT: optionalString,
+  PAYMENT_AMOUNT_USDC: positiveNumber(0.01),
+  PAYMENT_INTENT_TTL_MINUTES: positiveNumber(30),
+  USDC_MINT: z.string().default('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'),
+  USDC_DECIMALS: z.coerce.number().int().min(0).max(18).default(6),
+  PREMIUM_PERIOD_DAYS: positiveNumber(30),
+  FREE_MODELS: optionalString.pipe(
+    z.string()
+      .transform((value) => value.split(',').map((model) => model.trim()).filter(Boolean))
+      .pipe(z.array(chatModel).min(1))
+      .optional()
+  ),
+  QUOTA_RESET_PERIOD: z.enum(['month', 'none']).default('none'),
+  ENTITLEMENT_CHECK_INTERVAL_MINUTES: positiveNumber(5),
+  ENTITLEMENT_WEBHOOK_URL: optionalString.pipe(z.string().url().optional()),
+
+  WALLET_AUTH_DOMAIN: optionalString,
+  WALLET_CHALLENGE_TTL_MINUTES: positiveNumber(5),
+  WALLET_SIGNATURE_DEV_BYPASS: flag,
+
+  ANALYSIS_CACHE_TTL_HOURS: nonNegativeNumber(24),
+  ANALYSIS_WORKERS: z.coerce.number().int().positive().default(2),
+  WEBHOOK_SECRET: optionalString,
+  API_KEY_ROTATION_GRACE_HOURS: nonNegativeNumber(24),
+});
+
+// Used outside production when no JWT secret is configured
+const DEV_JWT_SECRET = 'unrepo-development-secret';
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function hostOf(url: string | undefined): string | undefined {
+  return url ? new URL(url).host : undefined;
+}
+
+/**
+ * Parse and check an environment. Throws ConfigError on invalid values, and in
+ * production on missing secrets; returns warnings for optional integrations.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env) {
+  const parsed = envSchema.safeParse(env);
+
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`));
+  }
+
+  const vars = parsed.data;
+  const isProduction = vars.NODE_ENV === 'production';
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const jwtSecret = vars.JWT_SECRET ?? vars.NEXTAUTH_SECRET;
+
+  if (isProduction) {
+    if (!jwtSecret) {
+      problems.push('JWT_SECRET must be set to a real secret in production');
+    } else if (jwtSecret.length < 32) {
+      problems.push('JWT_SECRET must be at least 32 characters in production');
+    }
+
+    if (vars.WALLET_SIGNATURE_DEV_BYPASS) {
+      problems.push('WALLET_SIGNATURE_DEV_BYPASS cannot be enabled in production');
+    }
+
+    if (!vars.WEBHOOK_SECRET) {
+      problems.push('WEBHOOK_SECRET must be set in production');
+    }
+
+    if (vars.SOLANA_RPC_FIXTURE_FILE) {
+      problems.push('SOLANA_RPC_FIXTURE_FILE cannot be used in production');
+    }
+  } else {
+    if (!jwtSecret) warnings.push('JWT_SECRET is not set; using an insecure development secret');
+    if (!vars.WEBHOOK_SECRET) warnings.push('WEBHOOK_SECRET is not set; operator webhooks are signed with a random secret that changes on restart');
+  }
+
+  const tokenTiers = [...(vars.UNREPO_TOKEN_TIERS ?? defaultTokenTiers(vars.UNREPO_TOKEN_THRESHOLD))]
+    .sort((a, b) => a.minBalance - b.minBalance);
+
+  if (new Set(tokenTiers.map((tier) => tier.id)).size !== tokenTiers.length) {
+    problems.push('UNREPO_TOKEN_TIERS: tier ids must be unique');
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const githubAccessToken = vars.GITHUB_ACCESS_TOKEN ?? vars.GITHUB_TOKEN;
+  const oauthRedirectUris = [...new Set([
+    ...(vars.GITHUB_OAUTH_REDIRECT_URI ? [vars.GITHUB_OAUTH_REDIRECT_URI] : []),
+    ...(vars.GITHUB_OAUTH_REDIRECT_URIS ?? []),
+  ])];
+
+  if (!vars.HELIUS_API_KEY && !vars.SOLANA_RPC_URLS?.length && !vars.SOLANA_RPC_FIXTURE_FILE) {
+    warnings.push('Neither HELIUS_API_KEY nor SOLANA_RPC_URLS is set; token holder verification and re-checks are disabled');
+  }
+  if (!vars.OPENAI_API_KEY) warnings.push('OPENAI_API_KEY is not set; analysis summaries fall back to rule-based text');
+  if (!vars.ANTHROPIC_API_KEY) warnings.push('ANTHROPIC_API_KEY is not set; Claude chat is unavailable');
+  if (!githubAccessToken) warnings.push('GITHUB_ACCESS_TOKEN is not set; GitHub requests use the unauthenticated rate limit');
+  if (!vars.GITHUB_CLIENT_ID || !vars.GITHUB_CLIENT_SECRET) warnings.push('GITHUB_CLIENT_ID/GITHUB_CLIENT_SECRET are not set; GitHub sign-in is disabled');
+  if (!vars.PAYMENT_RECIPIENT) warnings.push('PAYMENT_RECIPIENT is not set; USDC payments are disabled');
+  if (!vars.REDIS_URL) warnings.push('REDIS_URL is not set; rate limits are kept in memory');
+  if (!vars.GITHUB_ACCESS_TOKEN && vars.GITHUB_TOKEN) warnings.push('GITHUB_TOKEN is deprecated; rename it to GITHUB_ACCESS_TOKEN');
+
+  const secret = jwtSecret ?? DEV_JWT_SECRET;
+
+  const config = {
+    env: vars.NODE_ENV,
+    isProduction,
+    isTest: vars.NODE_ENV === 'test',
+    port: vars.PORT,
+    frontendUrl: vars.FRONTEND_URL,
+    trustProxyHops: vars.TRUST_PROXY_HOPS,
+    databaseUrl: vars.DATABASE_URL,
+    redisUrl: vars.REDIS_URL,
+    auth: {
+      jwtSecret: secret,
+      accessTokenTtlMinutes: vars.ACCESS_TOKEN_TTL_MINUTES,
+      refreshTokenTtlDays: vars.REFRESH_TOKEN_TTL_DAYS,
+    },
+    github: {
+      accessToken: githubAccessToken,
+      clientId: vars.GITHUB_CLIENT_ID,
+      clientSecret: vars.GITHUB_CLIENT_SECRET,
+      oauthRedirectUri: vars.GITHUB_OAUTH_REDIRECT_URI,
+      oauthRedirectUris,
+      tokenEncryptionKey: vars.GITHUB_TOKEN_ENCRYPTION_KEY ?? secret,
+    },
+    ai: {
+      openaiApiKey: vars.OPENAI_API_KEY,
+      anthropicApiKey: vars.ANTHROPIC_API_KEY,
+      prices: { ...DEFAULT_LLM_PRICES, ...vars.LLM_PRICES },
+    },
+    solana: {
+      heliusApiKey: vars.HELIUS_API_KEY,
+      rpcUrls: vars.SOLANA_RPC_URLS ?? [],
+      rpcHeaders: vars.SOLANA_RPC_HEADERS ?? {},
+      rpcRetries: vars.SOLANA_RPC_RETRIES,
+      rpcRetryDelayMs: vars.SOLANA_RPC_RETRY_DELAY_MS,
+      rpcTimeoutMs: vars.SOLANA_RPC_TIMEOUT_MS,
+      rpcFixtureFile: vars.SOLANA_RPC_FIXTURE_FILE,
+      tokenMint: vars.UNREPO_TOKEN_MINT,
+      tokenDecimals: vars.UNREPO_TOKEN_DECIMALS,
+      tokenTiers,
+      holderMaxStalenessHours: vars.TOKEN_HOLDER_MAX_STALENESS_HOURS,
+      holderGraceHours: vars.TOKEN_HOLDER_GRACE_HOURS,
+      recheckIntervalMinutes: vars.TOKEN_RECHECK_INTERVAL_MINUTES,
+      recheckBatchSize: vars.TOKEN_RECHECK_BATCH_SIZE,
+    },
+    payments: {
+      recipient: vars.PAYMENT_RECIPIENT,
+      amountUsdc: vars.PAYMENT_AMOUNT_USDC,
+      intentTtlMinutes: vars.PAYMENT_INTENT_TTL_MINUTES,
+      usdcMint: vars.USDC_MINT,
+      usdcDecimals: vars.USDC_DECIMALS,
+    },
+    quotas: {
+      resetPeriod: vars.QUOTA_RESET_PERIOD,
+    },
+    entitlements: {
+      premiumPeriodDays: vars.PREMIUM_PERIOD_DAYS,
+      freeModels: vars.FREE_MODELS ?? ['chatgpt'],
+      checkIntervalMinutes: vars.ENTITLEMENT_CHECK_INTERVAL_MINUTES,
+      webhookUrl: vars.ENTITLEMENT_WEBHOOK_URL,
+    },
+    wallet: {
+      authDomain: vars.WALLET_AUTH_DOMAIN ?? hostOf(vars.FRONTEND_URL) ?? 'app.unrepo.dev',
+      challengeTtlMinutes: vars.WALLET_CHALLENGE_TTL_MINUTES,
+      signatureDevBypass: vars.WALLET_SIGNATURE_DEV_BYPASS,
+    },
+    analysis: {
+      cacheTtlHours: vars.ANALYSIS_CACHE_TTL_HOURS,
+      workers: vars.ANALYSIS_WORKERS,
+    },
+    webhooks: {
+      secret: vars.WEBHOOK_SECRET ?? crypto.randomBytes(32).toString('hex'), // signs operator webhooks only
+    },
+    apiKeys: {
+      rotationGraceHours: vars.API_KEY_ROTATION_GRACE_HOURS,
+    },
+  };
+
+  return { config, warnings };
+}
+
+export type AppConfig = ReturnType<typeof loadConfig>['config'];
+
+function loadOrExit(): AppConfig {
+  try {
+    const { config, warnings } = loadConfig();
+    if (!config.isTest) {
+      warnings.forEach((warning) => console.warn(`⚠️ ${warning}`));
+    }
+    return config;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+export const config = loadOrExit();
+
+export default config;
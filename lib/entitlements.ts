@@ -0,0 +1,536 @@
+// Entitlements: time-boxed access to a plan
+// An entitlement gives an account (userId) or a wallet (walletAddress) a plan,
+// "premium" or a token tier id, from a source: a USDC payment, token holdings
+// or an admin grant. Every gate calls resolveAccess(), which combines the
+// active entitlements with the free allowance. The expiry scheduler
+// downgrades accounts whose entitlements have ended and notifies through the
+// EntitlementNotifier (a signed webhook when ENTITLEMENT_WEBHOOK_URL is set).
+import type { Entitlement, Payment, Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+import { getTokenTier, tierRank } from './helius.js';
+import { RATE_LIMITS, type RateLimitedEndpoint } from './rateLimit.js';
+import { signWebhookPayload } from './webhooks.js';
+import type { ChatProvider } from './ai.js';
+import type { Meter } from './metering.js';
+
+export const PREMIUM_PLAN = 'premium';
+
+// Free allowance: calls per API key per quota period, and the WalletUser/User defaults
+export const FREE_API_CALLS = 5;
+const FREE_RESEARCH = 1;
+const FREE_CHATS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Limits of a plan. null means unlimited; models undefined means every model
+ * (premium). Callers without an entitlement get FREE_MODELS.
+ */
+export interface PlanLimits {
+  researchLimit: number | null;
+  chatLimit: number | null;
+  apiCallLimits: Record<Meter, number | null>; // calls per API key per quota period, by the key's meter
+  rateLimits: Record<RateLimitedEndpoint, number>; // per hour
+  models?: ChatProvider[];
+}
+
+export interface Access extends PlanLimits {
+  premium: boolean; // at least one active entitlement
+  plans: string[];
+  entitlements: Entitlement[];
+}
+
+// Whose entitlements apply: an account, a wallet, or an account and its linked wallet
+export interface AccessPrincipal {
+  userId?: string | null;
+  walletAddress?: string | null;
+}
+
+// Counters' own limits (User/WalletUser researchLimit, chatLimit); the floor under every plan
+export interface FreeAllowance {
+  researchLimit?: number;
+  chatLimit?: number;
+}
+
+export type EntitlementEvent = 'entitlement.expired' | 'entitlement.revoked';
+export type EntitlementNotifier = (event: EntitlementEvent, entitlement: Entitlement) => Promise<void>;
+
+/**
+ * Thrown when a grant or revocation is not allowed; routes answer with error.status
+ */
+export class EntitlementError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'EntitlementError';
+  }
+}
+
+/**
+ * Limits of a plan id, or null if it is neither premium nor a configured token tier
+ */
+export function getPlan(plan: string): PlanLimits | null {
+  if (plan === PREMIUM_PLAN) {
+    return {
+      researchLimit: null,
+      chatLimit: null,
+      apiCallLimits: { research: null, chat: null },
+      rateLimits: RATE_LIMITS.premium,
+    };
+  }
+
+  // A tier's keys get the tier's own research and chat quotas
+  const tier = getTokenTier(plan);
+  return tier && {
+    researchLimit: tier.researchLimit,
+    chatLimit: tier.chatLimit,
+    apiCallLimits: { research: tier.researchLimit, chat: tier.chatLimit },
+    rateLimits: tier.rateLimits,
+    models: tier.models,
+  };
+}
+
+export function serializeEntitlement(entitlement: Entitlement) {
+  return {
+    id: entitlement.id,
+    userId: entitlement.userId,
+    walletAddress: entitlement.walletAddress,
+    plan: entitlement.plan,
+    source: entitlement.source.toLowerCase(),
+    startsAt: entitlement.startsAt,
+    endsAt: entitlement.endsAt,
+    overrides: {
+      researchLimit: entitlement.researchLimit,
+      chatLimit: entitlement.chatLimit,
+      apiCallLimit: entitlement.apiCallLimit,
+      researchRateLimit: entitlement.researchRateLimit,
+      chatbotRateLimit: entitlement.chatbotRateLimit,
+    },
+    paymentId: entitlement.paymentId,
+    note: entitlement.note,
+    revokedAt: entitlement.revokedAt,
+    expiredAt: entitlement.expiredAt,
+    createdAt: entitlement.createdAt,
+  };
+}
+
+function activeAt(now: Date): Prisma.EntitlementWhereInput {
+  return {
+    revokedAt: null,
+    startsAt: { lte: now },
+    OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+  };
+}
+
+// A wallet's entitlements include those of the account it is linked to
+function ownedBy(principal: AccessPrincipal): Prisma.EntitlementWhereInput[] {
+  const owners: Prisma.EntitlementWhereInput[] = [];
+
+  if (principal.userId) {
+    owners.push({ userId: principal.userId });
+  }
+
+  if (principal.walletAddress) {
+    owners.push({ walletAddress: principal.walletAddress }, { user: { walletAddress: principal.walletAddress } });
+  }
+
+  return owners;
+}
+
+/**
+ * Entitlements in effect now for an account and/or wallet, oldest first
+ */
+export async function getActiveEntitlements(principal: AccessPrincipal, now = new Date()): Promise<Entitlement[]> {
+  const owners = ownedBy(principal);
+
+  if (owners.length === 0) {
+    return [];
+  }
+
+  return prisma.entitlement.findMany({
+    where: { AND: [{ OR: owners }, activeAt(now)] },
+    orderBy: { startsAt: 'asc' },
+  });
+}
+
+// null (unlimited) wins, otherwise the larger limit
+function mostGenerous(a: number | null, b: number | null): number | null {
+  return a === null || b === null ? null : Math.max(a, b);
+}
+
+function withOverrides(plan: PlanLimits, entitlement: Entitlement): PlanLimits {
+  return {
+    researchLimit: entitlement.researchLimit ?? plan.researchLimit,
+    chatLimit: entitlement.chatLimit ?? plan.chatLimit,
+    apiCallLimits: {
+      research: entitlement.apiCallLimit ?? plan.apiCallLimits.research,
+      chat: entitlement.apiCallLimit ?? plan.apiCallLimits.chat,
+    },
+    rateLimits: {
+      research: entitlement.researchRateLimit ?? plan.rateLimits.research,
+      chatbot: entitlement.chatbotRateLimit ?? plan.rateLimits.chatbot,
+    },
+    models: plan.models,
+  };
+}
+
+/**
+ * Combine entitlements into one set of limits: the most generous value of
+ * each, never below the free allowance. Models are the free models plus
+ * every plan's, or every model if a plan has no list.
+ */
+export function combineEntitlements(entitlements: Entitlement[], base: FreeAllowance = {}): Access {
+  const access: Access = {
+    premium: false,
+    plans: [],
+    entitlements: [],
+    researchLimit: base.researchLimit ?? FREE_RESEARCH,
+    chatLimit: base.chatLimit ?? FREE_CHATS,
+    apiCallLimits: { research: FREE_API_CALLS, chat: FREE_API_CALLS },
+    rateLimits: { ...RATE_LIMITS.free },
+  };
+  const models = new Set<ChatProvider>(config.entitlements.freeModels);
+  let allModels = false;
+
+  for (const entitlement of entitlements) {
+    const plan = getPlan(entitlement.plan);
+
+    // A tier removed from UNREPO_TOKEN_TIERS grants nothing
+    if (!plan) {
+      continue;
+    }
+
+    const limits = withOverrides(plan, entitlement);
+    access.premium = true;
+    access.entitlements.push(entitlement);
+    if (!access.plans.includes(entitlement.plan)) {
+      access.plans.push(entitlement.plan);
+    }
+
+    access.researchLimit = mostGenerous(access.researchLimit, limits.researchLimit);
+    access.chatLimit = mostGenerous(access.chatLimit, limits.chatLimit);
+    access.apiCallLimits.research = mostGenerous(access.apiCallLimits.research, limits.apiCallLimits.research);
+    access.apiCallLimits.chat = mostGenerous(access.apiCallLimits.chat, limits.apiCallLimits.chat);
+    access.rateLimits.research = Math.max(access.rateLimits.research, limits.rateLimits.research);
+    access.rateLimits.chatbot = Math.max(access.rateLimits.chatbot, limits.rateLimits.chatbot);
+
+    if (limits.models) {
+      limits.models.forEach((model) => models.add(model));
+    } else {
+      allModels = true;
+    }
+  }
+
+  if (!allModels) {
+    access.models = [...models];
+  }
+
+  return access;
+}
+
+/**
+ * Limits in effect for an account and/or wallet right now
+ */
+export async function resolveAccess(principal: AccessPrincipal, base: FreeAllowance = {}): Promise<Access> {
+  return combineEntitlements(await getActiveEntitlements(principal), base);
+}
+
+export interface EntitlementGrant {
+  userId?: string | null;
+  walletAddress?: string | null;
+  plan: string;
+  startsAt?: Date;
+  endsAt?: Date | null;
+  researchLimit?: number | null;
+  chatLimit?: number | null;
+  apiCallLimit?: number | null;
+  researchRateLimit?: number | null;
+  chatbotRateLimit?: number | null;
+  note?: string | null;
+}
+
+/**
+ * Grant a plan by hand (support, partners, trials)
+ */
+export async function grantEntitlement(grantedById: string, grant: EntitlementGrant): Promise<Entitlement> {
+  if (!grant.userId === !grant.walletAddress) {
+    throw new EntitlementError(400, 'Grant to either a userId or a walletAddress');
+  }
+
+  if (!getPlan(grant.plan)) {
+    throw new EntitlementError(400, `Unknown plan: ${grant.plan}`);
+  }
+
+  const startsAt = grant.startsAt ?? new Date();
+  if (grant.endsAt && grant.endsAt <= startsAt) {
+    throw new EntitlementError(400, 'endsAt must be after startsAt');
+  }
+
+  if (grant.userId && !(await prisma.user.findUnique({ where: { id: grant.userId } }))) {
+    throw new EntitlementError(404, 'User not found');
+  }
+
+  return prisma.entitlement.create({
+    data: {
+      ...grant,
+      source: 'ADMIN',
+      startsAt,
+      grantedById,
+    },
+  });
+}
+
+/**
+ * Revoke an entitlement now (kept for audit). Returns null if it was not active.
+ */
+export async function revokeEntitlement(id: string, revokedById: string): Promise<Entitlement | null> {
+  const now = new Date();
+  const { count } = await prisma.entitlement.updateMany({
+    where: { id, revokedAt: null, expiredAt: null },
+    data: { revokedAt: now, revokedById },
+  });
+
+  if (count !== 1) {
+    return null;
+  }
+
+  const entitlement = await prisma.entitlement.findUniqueOrThrow({ where: { id } });
+  await refreshPaymentVerified(entitlement.userId);
+  await notify('entitlement.revoked', entitlement);
+  return entitlement;
+}
+
+/**
+ * Premium bought by a verified payment. A renewal starts when the current
+ * paid period ends, so paying early does not lose days.
+ */
+export async function grantPaymentEntitlement(tx: Prisma.TransactionClient, payment: Payment, now = new Date()) {
+  // The paid period that ends last, including renewals that have not started yet
+  const paid = await tx.entitlement.findFirst({
+    where: { userId: payment.userId, source: 'PAYMENT', plan: PREMIUM_PLAN, revokedAt: null, endsAt: { gt: now } },
+    orderBy: { endsAt: 'desc' },
+  });
+
+  const startsAt = paid?.endsAt ?? now;
+
+  return tx.entitlement.create({
+    data: {
+      userId: payment.userId,
+      plan: PREMIUM_PLAN,
+      source: 'PAYMENT',
+      startsAt,
+      endsAt: new Date(startsAt.getTime() + config.entitlements.premiumPeriodDays * DAY_MS),
+      paymentId: payment.id,
+    },
+  });
+}
+
+/**
+ * Keep a wallet's TOKEN entitlement in line with its holder tier (grace
+ * period included). A downgrade ends the old entitlement and leaves it to the
+ * expiry scheduler, which notifies; an upgrade replaces it silently.
+ */
+export async function syncTokenEntitlement(walletAddress: string, tokenTier: string | null, now = new Date()) {
+  const current = await prisma.entitlement.findMany({
+    where: { walletAddress, source: 'TOKEN', ...activeAt(now) },
+  });
+
+  const unchanged = tokenTier === null
+    ? current.length === 0
+    : current.length === 1 && current[0].plan === tokenTier;
+
+  if (unchanged) {
+    return;
+  }
+
+  const upgraded = current.every((entitlement) => tierRank(tokenTier) > tierRank(entitlement.plan));
+
+  await prisma.$transaction([
+    prisma.entitlement.updateMany({
+      where: { id: { in: current.map((entitlement) => entitlement.id) } },
+      data: { endsAt: now, ...(upgraded && { expiredAt: now }) },
+    }),
+    ...(tokenTier
+      ? [prisma.entitlement.create({ data: { walletAddress, plan: tokenTier, source: 'TOKEN', startsAt: now } })]
+      : []),
+  ]);
+}
+
+// User.paymentVerified mirrors "has an active paid premium entitlement"
+async function refreshPaymentVerified(userId: string | null) {
+  if (!userId) {
+    return;
+  }
+
+  const paid = await prisma.entitlement.count({
+    where: { userId, source: 'PAYMENT', plan: PREMIUM_PLAN, ...activeAt(new Date()) },
+  });
+
+  await prisma.user.updateMany({
+    where: { id: userId, paymentVerified: paid === 0 },
+    data: { paymentVerified: paid > 0 },
+  });
+}
+
+// Default notifier: a signed POST to ENTITLEMENT_WEBHOOK_URL, or a log line when none is set
+async function webhookNotifier(event: EntitlementEvent, entitlement: Entitlement) {
+  const url = config.entitlements.webhookUrl;
+
+  if (!url) {
+    const owner = entitlement.userId ? `user ${entitlement.userId}` : `wallet ${entitlement.walletAddress?.slice(0, 8)}...`;
+    console.log(`🔔 ${event}: ${entitlement.plan} (${entitlement.source.toLowerCase()}) for ${owner}`);
+    return;
+  }
+
+  const body = JSON.stringify({ event, entitlement: serializeEntitlement(entitlement) });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'UnRepo-Webhooks',
+      'X-UnRepo-Event': event,
+      'X-UnRepo-Timestamp': timestamp,
+      'X-UnRepo-Signature': signWebhookPayload(body, timestamp),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Entitlement webhook returned ${response.status}`);
+  }
+}
+
+let notifier: EntitlementNotifier = webhookNotifier;
+
+// Swap the notification hook (tests, email/Discord integrations); null restores the default
+export function setEntitlementNotifier(next: EntitlementNotifier | null) {
+  notifier = next ?? webhookNotifier;
+}
+
+async function notify(event: EntitlementEvent, entitlement: Entitlement) {
+  try {
+    await notifier(event, entitlement);
+  } catch (error) {
+    console.error(`Entitlement notification for ${entitlement.id} failed:`, error);
+  }
+}
+
+/**
+ * Entitlements of an account (and its wallet), newest first, for the account page and admins.
+ * Without a userId or walletAddress there is nothing to list.
+ */
+export async function listEntitlements(principal: AccessPrincipal, options: { activeOnly?: boolean } = {}) {
+  const owners = ownedBy(principal);
+
+  if (owners.length === 0) {
+    return [];
+  }
+
+  return prisma.entitlement.findMany({
+    where: {
+      OR: owners,
+      ...(options.activeOnly && { AND: [activeAt(new Date())] }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 200,
+  });
+}
+
+/**
+ * Every account's and wallet's entitlements, newest first. Admin only: never
+ * call this from a route that is not behind the admin check.
+ */
+export async function listAllEntitlements(options: { activeOnly?: boolean } = {}) {
+  return prisma.entitlement.findMany({
+    where: options.activeOnly ? activeAt(new Date()) : {},
+    orderBy: { createdAt: 'desc' },
+    take: 200,
+  });
+}
+
+interface EntitlementExpiryOptions {
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Periodically marks ended entitlements as expired, downgrades the accounts
+ * they applied to and sends the notification
+ */
+export class EntitlementExpiryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+
+  constructor(options: EntitlementExpiryOptions = {}) {
+    this.intervalMs = options.intervalMs ?? config.entitlements.checkIntervalMinutes * 60 * 1000;
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  start() {
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.runOnce()
+      .catch((error) => console.error('Entitlement expiry error:', error))
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Expire one batch of ended entitlements. Returns the number expired.
+   */
+  async runOnce(now = new Date()): Promise<number> {
+    const ended = await prisma.entitlement.findMany({
+      where: { expiredAt: null, revokedAt: null, endsAt: { lte: now } },
+      orderBy: { endsAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    let expired = 0;
+
+    for (const entitlement of ended) {
+      // Compare-and-set so two instances do not both notify
+      const { count } = await prisma.entitlement.updateMany({
+        where: { id: entitlement.id, expiredAt: null },
+        data: { expiredAt: now },
+      });
+
+      if (count !== 1) {
+        continue;
+      }
+
+      expired++;
+      await refreshPaymentVerified(entitlement.userId);
+      await notify('entitlement.expired', { ...entitlement, expiredAt: now });
+    }
+
+    if (expired > 0) {
+      console.log(`⌛ Expired ${expired} entitlement(s)`);
+    }
+
+    return expired;
+  }
+}
+
+export const entitlementExpiryScheduler = new EntitlementExpiryScheduler();
@@ -1,4 +1,5 @@
 import { Octokit } from '@octokit/rest';
+import { config } from './config.js';
 import type { FileNode, GitHubFile, GitHubContent, RepositoryData } from '@/types';
 
 export class GitHubService {
@@ -6,7 +7,7 @@ export class GitHubService {
 
   constructor(accessToken?: string) {
     this.octokit = new Octokit({
-      auth: accessToken || process.env.GITHUB_ACCESS_TOKEN,
+      auth: accessToken || config.github.accessToken,
     });
   }
 
@@ -46,8 +47,10 @@ export class GitHubService {
         url: data.html_url,
         description: data.description || undefined,
         language: data.language || undefined,
+        license: data.license?.spdx_id || undefined,
         stars: data.stargazers_count,
         forks: data.forks_count,
+        isPrivate: data.private,
       };
     } catch (error: any) {
       if (error.status === 404) {
@@ -209,6 +212,24 @@ export class GitHubService {
     }
   }
 
+  // Get top contributors
+  async getContributors(owner: string, repo: string, limit: number = 30) {
+    try {
+      const { data } = await this.octokit.repos.listContributors({
+        owner,
+        repo,
+        per_page: limit,
+      });
+
+      return data.map((contributor) => ({
+        login: contributor.login,
+        contributions: contributor.contributions,
+      }));
+    } catch (error: any) {
+      throw new Error(`Failed to fetch contributors: ${error.message}`);
+    }
+  }
+
   // Check if repository exists and is accessible
   async checkRepositoryAccess(owner: string, repo: string): Promise<boolean> {
     try {
@@ -0,0 +1,282 @@
+// Server-side GitHub OAuth (authorization code flow with state and PKCE)
+// Each state is bound to the client that started the flow: the caller passes a
+// per-client secret (kept in that client's session), only its hash is stored,
+// and the callback must present the same secret. The code exchange and profile
+// fetch go through a GitHubOAuthClient, which tests can replace with
+// setGitHubOAuthClient().
+import crypto from 'crypto';
+import type { OAuthState } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+import GitHubService from './github.js';
+
+const AUTHORIZE_URL = 'https://github.com/login/oauth/authorize';
+const TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export type OAuthPurpose = 'login' | 'link';
+
+export interface GitHubProfile {
+  id: string;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatarUrl: string | null;
+}
+
+export interface GitHubOAuthClient {
+  exchangeCode(params: { code: string; codeVerifier: string; redirectUri: string | null }): Promise<{ accessToken: string; scope: string }>;
+  fetchProfile(accessToken: string): Promise<GitHubProfile>;
+}
+
+/**
+ * Thrown for a missing, expired or mismatched state, or a rejected code; routes answer with 401
+ */
+export class GitHubOAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitHubOAuthError';
+  }
+}
+
+export function createGitHubOAuthClient(fetchImpl: typeof fetch = fetch): GitHubOAuthClient {
+  return {
+    async exchangeCode({ code, codeVerifier, redirectUri }) {
+      const response = await fetchImpl(TOKEN_URL, {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          client_id: config.github.clientId,
+          client_secret: config.github.clientSecret,
+          code,
+          code_verifier: codeVerifier,
+          ...(redirectUri && { redirect_uri: redirectUri }),
+        }),
+      });
+
+      const data = await response.json() as { access_token?: string; scope?: string; error_description?: string };
+
+      if (!response.ok || !data.access_token) {
+        throw new GitHubOAuthError(data.error_description || 'GitHub rejected the authorization code');
+      }
+
+      return { accessToken: data.access_token, scope: data.scope || '' };
+    },
+
+    async fetchProfile(accessToken) {
+      const response = await fetchImpl('https://api.github.com/user', {
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Bearer ${accessToken}`,
+          'User-Agent': 'UnRepo',
+        },
+      });
+
+      if (!response.ok) {
+        throw new GitHubOAuthError(`Failed to fetch GitHub profile (${response.status})`);
+      }
+
+      const data = await response.json() as { id: number; login: string; name?: string; email?: string; avatar_url?: string };
+
+      return {
+        id: data.id.toString(),
+        login: data.login,
+        name: data.name ?? null,
+        email: data.email ?? null,
+        avatarUrl: data.avatar_url ?? null,
+      };
+    },
+  };
+}
+
+let client: GitHubOAuthClient | null = null;
+
+export function getGitHubOAuthClient(): GitHubOAuthClient {
+  if (!client) {
+    client = createGitHubOAuthClient();
+  }
+  return client;
+}
+
+// Swap the client (tests)
+export function setGitHubOAuthClient(next: GitHubOAuthClient | null) {
+  client = next;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+/**
+ * A new secret that binds OAuth flows to one client, kept in its session
+ */
+export function newOAuthBinding(): string {
+  return base64Url(crypto.randomBytes(32));
+}
+
+function hashBinding(binding: string): string {
+  return crypto.createHash('sha256').update(binding).digest('hex');
+}
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '[::1]' || hostname.startsWith('127.');
+}
+
+/**
+ * OAuth callbacks may only go to a registered redirect URI, matched exactly.
+ * Loopback callbacks are refused in production even when registered.
+ */
+export function isAllowedRedirectUri(redirectUri: string): boolean {
+  if (!config.github.oauthRedirectUris.includes(redirectUri)) {
+    return false;
+  }
+
+  try {
+    return !(config.isProduction && isLoopbackHost(new URL(redirectUri).hostname));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start an authorization: store state and PKCE verifier, return the GitHub URL.
+ * privateRepos asks for the repo scope and stores the user's token after sign-in.
+ */
+export async function startGitHubAuthorization(params: {
+  purpose: OAuthPurpose;
+  binding: string;
+  userId?: string | null;
+  redirectUri?: string | null;
+  privateRepos?: boolean;
+}) {
+  if (!config.github.clientId || !config.github.clientSecret) {
+    throw new Error('GitHub OAuth is not configured');
+  }
+
+  const state = base64Url(crypto.randomBytes(24));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  const expiresAt = new Date(Date.now() + STATE_TTL_MS);
+
+  await prisma.oAuthState.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+  await prisma.oAuthState.create({
+    data: {
+      state,
+      codeVerifier,
+      purpose: params.purpose,
+      bindingHash: hashBinding(params.binding),
+      userId: params.userId ?? null,
+      redirectUri: params.redirectUri ?? null,
+      storeToken: params.privateRepos ?? false,
+      expiresAt,
+    },
+  });
+
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set('client_id', config.github.clientId);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  url.searchParams.set('scope', params.privateRepos ? 'read:user user:email repo' : 'read:user user:email');
+  if (params.redirectUri) {
+    url.searchParams.set('redirect_uri', params.redirectUri);
+  }
+
+  return { url: url.toString(), state, expiresAt };
+}
+
+// Single use: mark the state consumed and check it matches this flow and client
+async function consumeState(state: string, purpose: OAuthPurpose, userId: string | null, binding: string | null): Promise<OAuthState> {
+  const row = await prisma.oAuthState.findUnique({ where: { state } });
+
+  if (!row || row.purpose !== purpose || (row.userId ?? null) !== userId) {
+    throw new GitHubOAuthError('Unknown OAuth state. Start the sign-in again');
+  }
+
+  const presented = Buffer.from(binding ? hashBinding(binding) : '');
+  const expected = Buffer.from(row.bindingHash);
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    throw new GitHubOAuthError('OAuth state was started by a different client. Start the sign-in again');
+  }
+
+  if (row.expiresAt <= new Date()) {
+    throw new GitHubOAuthError('OAuth state has expired. Start the sign-in again');
+  }
+
+  const { count } = await prisma.oAuthState.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count !== 1) {
+    throw new GitHubOAuthError('OAuth state has already been used');
+  }
+
+  return row;
+}
+
+/**
+ * Finish an authorization: verify state and its client binding, exchange the
+ * code (with the PKCE verifier) and fetch the profile. accessToken is set only
+ * if the flow asked to store it.
+ */
+export async function completeGitHubAuthorization(params: {
+  code: string;
+  state: string;
+  purpose: OAuthPurpose;
+  binding: string | null;
+  userId?: string | null;
+}): Promise<{ profile: GitHubProfile; accessToken: string | null; scope: string }> {
+  const row = await consumeState(params.state, params.purpose, params.userId ?? null, params.binding);
+  const oauth = getGitHubOAuthClient();
+
+  const { accessToken, scope } = await oauth.exchangeCode({
+    code: params.code,
+    codeVerifier: row.codeVerifier,
+    redirectUri: row.redirectUri,
+  });
+  const profile = await oauth.fetchProfile(accessToken);
+
+  return { profile, accessToken: row.storeToken ? accessToken : null, scope };
+}
+
+// Stored tokens are encrypted with AES-256-GCM
+function tokenKey(): Buffer {
+  return crypto.createHash('sha256').update(config.github.tokenEncryptionKey).digest();
+}
+
+export function encryptGitHubToken(token: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', tokenKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptGitHubToken(stored: string): string | null {
+  try {
+    const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', tokenKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GitHubService using the user's stored token when there is one, so their
+ * private repositories can be analyzed; the shared token otherwise
+ */
+export async function githubServiceForUser(userId?: string | null): Promise<GitHubService> {
+  if (!userId) {
+    return new GitHubService();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { githubAccessToken: true },
+  });
+  const token = user?.githubAccessToken ? decryptGitHubToken(user.githubAccessToken) : null;
+
+  return new GitHubService(token ?? undefined);
+}
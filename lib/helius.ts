@@ -1,153 +1,252 @@
-// Helius API integration for token holder verification
-import 'dotenv/config';
+// Token holder verification and tiers
+// Balances are read through the Solana RPC provider (lib/solanaRpc.ts), which
+// is Helius in production.
+import { config, type TokenTierConfig } from './config.js';
+import {
+  getSolanaRpcProvider,
+  getTokenAccountsByOwner,
+  SolanaRpcError,
+  SolanaRpcUnavailableError,
+  type ParsedTokenAccount,
+  type SolanaRpcProvider,
+} from './solanaRpc.js';
+
+const UNREPO_TOKEN_MINT = config.solana.tokenMint;
+const TOKEN_DECIMALS = config.solana.tokenDecimals;
+const TOKEN_TIERS = config.solana.tokenTiers; // sorted by minBalance, lowest first
 
-const HELIUS_API_KEY = process.env.HELIUS_API_KEY;
-const UNREPO_TOKEN_MINT = process.env.UNREPO_TOKEN_MINT || 'F5kKqk9PPfYPXWdaXjsoksnab4xTFQmiKnCk1FTXpump';
-const TOKEN_DECIMALS = parseInt(process.env.UNREPO_TOKEN_DECIMALS || '6');
-const TOKEN_THRESHOLD = parseInt(process.env.UNREPO_TOKEN_THRESHOLD || '1000000'); // 1 million tokens
+/**
+ * A holder tier: quotas (null = unlimited), hourly rate limits and the chat models it may use
+ */
+export type TokenTier = TokenTierConfig;
 
-interface TokenBalance {
-  mint: string;
-  amount: number;
-  decimals: number;
-  tokenAccount: string;
+/**
+ * Thrown when the balance could not be read (RPC down, bad response). Callers
+ * treat the balance as unknown and keep the previous status.
+ */
+export class TokenBalanceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenBalanceUnavailableError';
+  }
 }
 
-interface HeliusTokenResponse {
-  tokens: Array<{
-    mint: string;
-    amount: number;
-    decimals: number;
-    tokenAccount: string;
-  }>;
+export interface RawTokenBalance {
+  raw: bigint; // sum of all token accounts plus staked tokens, in base units
+  accounts: number;
+  staked: bigint; // part of raw held in staked positions
 }
 
 /**
- * Get all token balances for a wallet using Helius API
+ * Reads tokens a wallet has staked, which sit in a staking program's accounts
+ * rather than the wallet's own. Reads go through the same RPC provider as
+ * balances; failures should throw SolanaRpcUnavailableError or SolanaRpcError.
  */
-export async function getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
-  if (!HELIUS_API_KEY) {
-    throw new Error('HELIUS_API_KEY not configured');
-  }
+export interface StakedBalanceSource {
+  readonly name: string;
+  getStakedBalance(rpc: SolanaRpcProvider, walletAddress: string, mintAddress: string): Promise<bigint>;
+}
 
-  const url = `https://api.helius.xyz/v0/addresses/${walletAddress}/balances?api-key=${HELIUS_API_KEY}`;
-  
-  try {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
-    }
+// Reports no staked tokens until a source for a staking program is set
+const noStakedBalance: StakedBalanceSource = {
+  name: 'none',
+  getStakedBalance: async () => 0n,
+};
 
-    const data = await response.json() as HeliusTokenResponse;
-    return data.tokens || [];
-  } catch (error) {
-    console.error('Error fetching token balances:', error);
-    throw error;
-  }
+let stakedBalanceSource = noStakedBalance;
+
+// Swap the staked balance source (a staking program, tests); undefined restores the default
+export function setStakedBalanceSource(next: StakedBalanceSource | undefined) {
+  stakedBalanceSource = next ?? noStakedBalance;
 }
 
 /**
- * Get Token-2022 balance using Solana RPC
- * Token-2022 tokens require direct RPC calls instead of REST API
+ * Convert a whole-token amount to base units with UNREPO_TOKEN_DECIMALS
  */
-export async function getToken2022Balance(walletAddress: string, mintAddress: string): Promise<number> {
-  if (!HELIUS_API_KEY) {
-    throw new Error('HELIUS_API_KEY not configured');
+export function toRawAmount(tokens: number, decimals: number = TOKEN_DECIMALS): bigint {
+  const [whole, fraction = ''] = tokens.toFixed(decimals).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Convert base units to whole tokens (for display and storage)
+ */
+export function fromRawAmount(raw: bigint, decimals: number = TOKEN_DECIMALS): number {
+  const unit = 10n ** BigInt(decimals);
+  return Number(raw / unit) + Number(raw % unit) / Number(unit);
+}
+
+/**
+ * Get the balance of a mint across every token account the wallet owns
+ * (works for both Token and Token-2022 mints), plus the wallet's staked
+ * positions from the StakedBalanceSource. Amounts are summed as raw
+ * integers. Throws TokenBalanceUnavailableError if an RPC call fails.
+ */
+export async function getToken2022Balance(walletAddress: string, mintAddress: string): Promise<RawTokenBalance> {
+  const rpc = getSolanaRpcProvider();
+
+  if (!rpc) {
+    throw new TokenBalanceUnavailableError('No Solana RPC endpoint configured (HELIUS_API_KEY or SOLANA_RPC_URLS)');
   }
 
-  const rpcUrl = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
-  
+  let accounts: ParsedTokenAccount[];
+  let staked: bigint;
+
   try {
-    // Get token accounts for this specific mint (works for both Token and Token-2022)
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 'token-check',
-        method: 'getTokenAccountsByOwner',
-        params: [
-          walletAddress,
-          { mint: mintAddress },
-          { encoding: 'jsonParsed' }
-        ]
-      })
-    });
-
-    const data = await response.json() as any;
-
-    if (data.error) {
-      console.error('RPC Error:', data.error);
-      return 0;
+    [accounts, staked] = await Promise.all([
+      getTokenAccountsByOwner(rpc, walletAddress, mintAddress),
+      stakedBalanceSource.getStakedBalance(rpc, walletAddress, mintAddress),
+    ]);
+  } catch (error) {
+    if (error instanceof SolanaRpcUnavailableError || error instanceof SolanaRpcError) {
+      throw new TokenBalanceUnavailableError(`Solana RPC request failed: ${error.message}`);
     }
+    throw error;
+  }
 
-    if (data.result?.value?.length > 0) {
-      const tokenAccount = data.result.value[0];
-      const balance = tokenAccount.account.data.parsed.info.tokenAmount;
-      return parseFloat(balance.uiAmount || '0');
+  if (staked < 0n) {
+    throw new TokenBalanceUnavailableError(`Staked balance source ${stakedBalanceSource.name} returned a negative amount`);
+  }
+
+  let raw = staked;
+
+  for (const tokenAccount of accounts) {
+    const tokenAmount = tokenAccount.account?.data?.parsed?.info?.tokenAmount;
+
+    if (!tokenAmount || !/^\d+$/.test(tokenAmount.amount)) {
+      throw new TokenBalanceUnavailableError('Solana RPC returned a token account without a raw amount');
     }
 
-    return 0;
-  } catch (error) {
-    console.error('Error fetching Token-2022 balance:', error);
-    return 0;
+    if (tokenAmount.decimals !== TOKEN_DECIMALS) {
+      throw new TokenBalanceUnavailableError(
+        `Token account has ${tokenAmount.decimals} decimals but UNREPO_TOKEN_DECIMALS is ${TOKEN_DECIMALS}`
+      );
+    }
+
+    raw += BigInt(tokenAmount.amount);
   }
+
+  return { raw, accounts: accounts.length, staked };
 }
 
 /**
- * Check if wallet holds the required UNREPO tokens
- * Returns the token balance if found, or 0 if not holding
- * NOTE: UNREPO is a Token-2022 token, so we use RPC instead of REST API
+ * Check how many UNREPO tokens a wallet holds, summed over all its token accounts
+ * NOTE: UNREPO is a Token-2022 token, so we read token accounts over RPC
  */
-export async function checkUnrepoTokenBalance(walletAddress: string): Promise<number> {
-  try {
-    // UNREPO is a Token-2022 token, use direct RPC call
-    console.log(`🔍 Checking Token-2022 balance for ${walletAddress.slice(0, 8)}...`);
-    const balance = await getToken2022Balance(walletAddress, UNREPO_TOKEN_MINT);
-    
-    if (balance > 0) {
-      console.log(`💰 Wallet ${walletAddress.slice(0, 8)}... holds ${balance.toLocaleString()} UNREPO tokens (Token-2022)`);
-    } else {
-      console.log(`💰 Wallet ${walletAddress.slice(0, 8)}... does not hold UNREPO token`);
-    }
-    
-    return balance;
-  } catch (error) {
-    console.error('Error checking UNREPO token balance:', error);
-    return 0;
+export async function checkUnrepoTokenBalance(walletAddress: string): Promise<RawTokenBalance> {
+  console.log(`🔍 Checking Token-2022 balance for ${walletAddress.slice(0, 8)}...`);
+  const balance = await getToken2022Balance(walletAddress, UNREPO_TOKEN_MINT);
+
+  if (balance.raw > 0n) {
+    const staked = balance.staked > 0n ? ` (${fromRawAmount(balance.staked).toLocaleString()} staked)` : '';
+    console.log(`💰 Wallet ${walletAddress.slice(0, 8)}... holds ${fromRawAmount(balance.raw).toLocaleString()} UNREPO tokens in ${balance.accounts} account(s)${staked}`);
+  } else {
+    console.log(`💰 Wallet ${walletAddress.slice(0, 8)}... does not hold UNREPO token`);
   }
+
+  return balance;
 }
 
+export type TokenHolderVerification =
+  | {
+      status: 'verified';
+      isTokenHolder: boolean;
+      tokenBalance: number;
+      rawBalance: bigint;
+      threshold: number;
+      tier: TokenTier | null;
+    }
+  | { status: 'unknown'; error: string; threshold: number };
+
 /**
- * Verify if wallet is a token holder (holds >= threshold tokens)
+ * Verify if wallet is a token holder (holds at least the lowest tier's balance).
+ * An unreadable balance comes back as status 'unknown', never as zero.
  */
-export async function verifyTokenHolder(walletAddress: string): Promise<{
-  isTokenHolder: boolean;
-  tokenBalance: number;
-  threshold: number;
-}> {
-  const tokenBalance = await checkUnrepoTokenBalance(walletAddress);
-  const isTokenHolder = tokenBalance >= TOKEN_THRESHOLD;
+export async function verifyTokenHolder(walletAddress: string): Promise<TokenHolderVerification> {
+  let balance: RawTokenBalance;
+
+  try {
+    balance = await checkUnrepoTokenBalance(walletAddress);
+  } catch (error) {
+    if (error instanceof TokenBalanceUnavailableError) {
+      console.warn(`⚠️ Token balance unknown for ${walletAddress.slice(0, 8)}...: ${error.message}`);
+      return { status: 'unknown', error: error.message, threshold: getTokenThreshold() };
+    }
+    throw error;
+  }
+
+  // Compare in base units so the decision is exact
+  const tier = TOKEN_TIERS.filter((candidate) => balance.raw >= toRawAmount(candidate.minBalance)).pop() ?? null;
+  const tokenBalance = fromRawAmount(balance.raw);
 
   console.log(`🔍 Token verification for ${walletAddress.slice(0, 8)}...:`);
   console.log(`   Balance: ${tokenBalance.toLocaleString()} UNREPO`);
-  console.log(`   Threshold: ${TOKEN_THRESHOLD.toLocaleString()} UNREPO`);
-  console.log(`   Is Token Holder: ${isTokenHolder ? '✅ YES' : '❌ NO'}`);
+  console.log(`   Tier: ${tier ? `✅ ${tier.name}` : '❌ none'}`);
 
   return {
-    isTokenHolder,
+    status: 'verified',
+    isTokenHolder: tier !== null,
     tokenBalance,
-    threshold: TOKEN_THRESHOLD,
+    rawBalance: balance.raw,
+    threshold: getTokenThreshold(),
+    tier,
   };
 }
 
 /**
- * Get token holder status with caching consideration
- * Token checks should be cached to avoid rate limiting
+ * Balance needed to be a token holder at all (the lowest tier)
  */
 export function getTokenThreshold(): number {
-  return TOKEN_THRESHOLD;
+  return TOKEN_TIERS[0].minBalance;
+}
+
+export function getTokenTiers(): TokenTier[] {
+  return TOKEN_TIERS;
+}
+
+export function getTokenDecimals(): number {
+  return TOKEN_DECIMALS;
+}
+
+export function getTokenTier(id: string | null | undefined): TokenTier | null {
+  return TOKEN_TIERS.find((tier) => tier.id === id) ?? null;
+}
+
+/**
+ * Highest tier the balance qualifies for, or null below the lowest tier
+ */
+export function getTierForBalance(balance: number): TokenTier | null {
+  let match: TokenTier | null = null;
+  for (const tier of TOKEN_TIERS) {
+    if (balance >= tier.minBalance) {
+      match = tier;
+    }
+  }
+  return match;
+}
+
+/**
+ * Position of a tier in the table (-1 for no tier), for comparing tiers
+ */
+export function tierRank(id: string | null | undefined): number {
+  return TOKEN_TIERS.findIndex((tier) => tier.id === id);
+}
+
+/**
+ * Current tier and how many more tokens reach the next one. Pass the stored
+ * tier when there is one: during a grace period it is above the balance's tier.
+ */
+export function describeTierProgress(balance: number, currentTierId?: string | null) {
+  const balanceTier = getTierForBalance(balance);
+  const tier = currentTierId === undefined ? balanceTier : getTokenTier(currentTierId);
+  const next = TOKEN_TIERS[Math.max(tierRank(tier?.id), tierRank(balanceTier?.id)) + 1] ?? null;
+
+  return {
+    tier,
+    balanceTier,
+    nextTier: next,
+    tokensToNextTier: next ? next.minBalance - balance : null,
+  };
 }
 
 export function getTokenMint(): string {
@@ -0,0 +1,190 @@
+// LLM token usage and spend
+// Every LLM call made through lib/ai.ts is recorded with its prompt and
+// completion tokens, model and estimated cost (LLM_PRICES), charged to the
+// API key or wallet that made the request. Keys may set a monthly spend cap;
+// once the cap is reached further calls are refused until the next month (UTC).
+import { prisma } from './prisma.js';
+import { config, type LlmPrice } from './config.js';
+
+export interface LlmCaller {
+  userId?: string | null;
+  apiKeyId?: string | null;
+  walletAddress?: string | null;
+}
+
+export interface LlmCall {
+  operation: 'chat' | 'analysis';
+  provider: 'anthropic' | 'openai';
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface KeySpend {
+  spentUsd: number;
+  capUsd: number | null; // null = no cap
+  remainingUsd: number | null;
+  resetsAt: Date;
+}
+
+/**
+ * Thrown when a key has reached its monthly spend cap; routes answer with 429
+ */
+export class SpendCapExceededError extends Error {
+  readonly status = 429;
+
+  constructor(readonly spend: KeySpend, message: string) {
+    super(message);
+    this.name = 'SpendCapExceededError';
+  }
+}
+
+const warnedModels = new Set<string>();
+
+// Exact model id first, then the longest configured prefix (dated model versions)
+function priceFor(model: string): LlmPrice | null {
+  const prices = config.ai.prices;
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((id) => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Estimated cost in USD; models without a price cost 0 and are logged once
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = priceFor(model);
+
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`⚠️ No LLM price for model ${model}; its calls are recorded at no cost. Add it to LLM_PRICES`);
+    }
+    return 0;
+  }
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Record one LLM call. Failures are logged, never thrown: the answer has
+ * already been paid for and should still reach the caller.
+ */
+export async function recordLlmUsage(caller: LlmCaller | undefined, call: LlmCall): Promise<number> {
+  const costUsd = estimateCost(call.model, call.promptTokens, call.completionTokens);
+
+  try {
+    await prisma.llmUsage.create({
+      data: {
+        userId: caller?.userId ?? null,
+        apiKeyId: caller?.apiKeyId ?? null,
+        walletAddress: caller?.walletAddress ?? null,
+        ...call,
+        costUsd,
+      },
+    });
+  } catch (error) {
+    console.error('LLM usage logging error:', error);
+  }
+
+  return costUsd;
+}
+
+/**
+ * The calendar month (UTC) spend caps apply to
+ */
+export function spendPeriod(now = new Date()) {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * A key's estimated LLM spend this month against its cap
+ */
+export async function getKeySpend(key: { id: string; monthlySpendCapUsd: number | null }, now = new Date()): Promise<KeySpend> {
+  const period = spendPeriod(now);
+  const { _sum } = await prisma.llmUsage.aggregate({
+    where: { apiKeyId: key.id, createdAt: { gte: period.start } },
+    _sum: { costUsd: true },
+  });
+
+  const spentUsd = _sum.costUsd ?? 0;
+  const capUsd = key.monthlySpendCapUsd;
+
+  return {
+    spentUsd,
+    capUsd,
+    remainingUsd: capUsd === null ? null : Math.max(0, capUsd - spentUsd),
+    resetsAt: period.resetsAt,
+  };
+}
+
+/**
+ * Refuse a call from a key that has reached its monthly spend cap. The check
+ * runs before the call, so the call that crosses the cap still completes.
+ */
+export async function assertWithinSpendCap(key: { id: string; monthlySpendCapUsd: number | null }) {
+  if (key.monthlySpendCapUsd === null) {
+    return;
+  }
+
+  const spend = await getKeySpend(key);
+
+  if (spend.spentUsd >= key.monthlySpendCapUsd) {
+    throw new SpendCapExceededError(
+      spend,
+      `Monthly spend cap reached ($${key.monthlySpendCapUsd.toFixed(2)}). Raise the key's cap or wait until ${spend.resetsAt.toISOString().slice(0, 10)}.`
+    );
+  }
+}
+
+export interface SpendReportRow {
+  apiKeyId: string | null;
+  walletAddress: string | null;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/**
+ * LLM calls, tokens and cost by key (or wallet) and model over [from, to),
+ * for an account's keys and its linked wallet
+ */
+export async function getSpendReport(
+  account: { userId: string; walletAddress?: string | null },
+  from: Date,
+  to: Date
+): Promise<SpendReportRow[]> {
+  const groups = await prisma.llmUsage.groupBy({
+    by: ['apiKeyId', 'walletAddress', 'model'],
+    where: {
+      OR: [
+        { userId: account.userId },
+        ...(account.walletAddress ? [{ walletAddress: account.walletAddress }] : []),
+      ],
+      createdAt: { gte: from, lt: to },
+    },
+    _count: { _all: true },
+    _sum: { promptTokens: true, completionTokens: true, costUsd: true },
+    orderBy: [{ apiKeyId: 'asc' }, { walletAddress: 'asc' }, { model: 'asc' }],
+  });
+
+  return groups.map((group) => ({
+    apiKeyId: group.apiKeyId,
+    walletAddress: group.walletAddress,
+    model: group.model,
+    calls: group._count._all,
+    promptTokens: group._sum.promptTokens ?? 0,
+    completionTokens: group._sum.completionTokens ?? 0,
+    costUsd: group._sum.costUsd ?? 0,
+  }));
+}
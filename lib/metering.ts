@@ -0,0 +1,245 @@
+// Quota metering: the one place calls are checked against quotas and counted
+// Calls are counted per principal (an API key, a wallet or a user account) on
+// a meter (research or chat) in the current period. consumeQuota() counts a
+// call only if it still fits the limit, with a single conditional update, so
+// concurrent requests cannot overshoot. With QUOTA_RESET_PERIOD=month the
+// counters start over on the first of each month (UTC); with none they never reset.
+import { Prisma, type ApiKeyType, type UsagePrincipalType } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+
+export type Meter = 'research' | 'chat';
+
+export interface MeterPrincipal {
+  type: 'apiKey' | 'wallet' | 'user';
+  id: string; // ApiKey id, wallet address or User id
+}
+
+export interface QuotaPeriod {
+  start: Date;
+  resetsAt: Date | null; // null when quotas never reset
+}
+
+export interface QuotaUsage {
+  meter: Meter;
+  used: number;
+  limit: number | null; // null = unlimited
+  remaining: number | null;
+  resetsAt: Date | null;
+}
+
+const PRINCIPAL_TYPES: Record<MeterPrincipal['type'], UsagePrincipalType> = {
+  apiKey: 'API_KEY',
+  wallet: 'WALLET',
+  user: 'USER',
+};
+
+// Every counter of a quota that never resets uses this period start
+const LIFETIME_PERIOD_START = new Date(0);
+
+/**
+ * Thrown when a call does not fit the principal's quota; routes answer with 429
+ */
+export class QuotaExceededError extends Error {
+  readonly status = 429;
+
+  constructor(readonly usage: QuotaUsage, message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * The period counters are kept for at a point in time
+ */
+export function quotaPeriod(now = new Date()): QuotaPeriod {
+  if (config.quotas.resetPeriod === 'none') {
+    return { start: LIFETIME_PERIOD_START, resetsAt: null };
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * "per month" or "in total", for quota messages
+ */
+export function quotaPeriodLabel(): string {
+  return config.quotas.resetPeriod === 'month' ? 'per month' : 'in total';
+}
+
+function counterKey(principal: MeterPrincipal, meter: Meter, period: QuotaPeriod) {
+  return {
+    principalType: PRINCIPAL_TYPES[principal.type],
+    principalId: principal.id,
+    meter,
+    periodStart: period.start,
+  };
+}
+
+function describeUsage(meter: Meter, used: number, limit: number | null, period: QuotaPeriod): QuotaUsage {
+  return {
+    meter,
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: period.resetsAt,
+  };
+}
+
+// The conditional increment needs the row to exist; two first calls may race to create it
+async function ensureCounter(key: ReturnType<typeof counterKey>) {
+  const where = { principalType_principalId_meter_periodStart: key };
+
+  try {
+    return await prisma.usageCounter.upsert({ where, create: key, update: {} });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.usageCounter.findUniqueOrThrow({ where });
+    }
+    throw error;
+  }
+}
+
+export interface ConsumeQuotaParams {
+  principal: MeterPrincipal;
+  meter: Meter;
+  limit: number | null; // null records the call without a limit
+  message?: string; // error message when the quota is used up
+}
+
+/**
+ * Check and count one call. Throws QuotaExceededError (and counts nothing)
+ * when the principal has used its quota for the period.
+ */
+export async function consumeQuota(params: ConsumeQuotaParams, now = new Date()): Promise<QuotaUsage> {
+  const period = quotaPeriod(now);
+  const counter = await ensureCounter(counterKey(params.principal, params.meter, period));
+
+  const { count } = await prisma.usageCounter.updateMany({
+    where: {
+      id: counter.id,
+      ...(params.limit !== null && { used: { lt: params.limit } }),
+    },
+    data: { used: { increment: 1 } },
+  });
+
+  const { used } = await prisma.usageCounter.findUniqueOrThrow({
+    where: { id: counter.id },
+    select: { used: true },
+  });
+  const usage = describeUsage(params.meter, used, params.limit, period);
+
+  if (count !== 1) {
+    throw new QuotaExceededError(
+      usage,
+      params.message ?? `${params.meter === 'research' ? 'Research' : 'Chat'} limit reached (${params.limit} ${quotaPeriodLabel()})`
+    );
+  }
+
+  return usage;
+}
+
+/**
+ * Usage so far in the current period, without counting a call
+ */
+export async function getQuotaUsage(principal: MeterPrincipal, meter: Meter, limit: number | null, now = new Date()): Promise<QuotaUsage> {
+  const period = quotaPeriod(now);
+  const counter = await prisma.usageCounter.findUnique({
+    where: { principalType_principalId_meter_periodStart: counterKey(principal, meter, period) },
+    select: { used: true },
+  });
+
+  return describeUsage(meter, counter?.used ?? 0, limit, period);
+}
+
+/**
+ * Move a principal's counters to another principal of the same type, adding
+ * them to any counter the target already has for that meter and period. Used
+ * when a key is rotated and when accounts are merged; run it in their transaction.
+ * Each counter is deleted first and its final count added to the target, so a
+ * call counted on the source while the move runs is not lost.
+ */
+export async function moveUsageCounters(tx: Prisma.TransactionClient, from: MeterPrincipal, to: MeterPrincipal) {
+  const counters = await tx.usageCounter.findMany({
+    where: { principalType: PRINCIPAL_TYPES[from.type], principalId: from.id },
+    select: { id: true },
+  });
+
+  for (const { id } of counters) {
+    const moved = await tx.usageCounter.delete({ where: { id } });
+    const key = {
+      principalType: PRINCIPAL_TYPES[to.type],
+      principalId: to.id,
+      meter: moved.meter,
+      periodStart: moved.periodStart,
+    };
+
+    await tx.usageCounter.upsert({
+      where: { principalType_principalId_meter_periodStart: key },
+      create: { ...key, used: moved.used },
+      update: { used: { increment: moved.used } },
+    });
+  }
+}
+
+/**
+ * The meter a key's calls count on
+ */
+export function meterForKeyType(type: ApiKeyType): Meter {
+  return type === 'RESEARCH' ? 'research' : 'chat';
+}
+
+/**
+ * Count an API key call: against the key's quota (apiCallLimit from its
+ * entitlements), on the account's own counter, and in the key's all-time
+ * usageCount shown in GET /api/keys
+ */
+export async function consumeApiKeyCall(
+  key: { id: string; userId: string },
+  meter: Meter,
+  apiCallLimit: number | null
+): Promise<QuotaUsage> {
+  const usage = await consumeQuota({
+    principal: { type: 'apiKey', id: key.id },
+    meter,
+    limit: apiCallLimit,
+    message: `Free tier limit reached (${apiCallLimit} calls ${quotaPeriodLabel()}). Please upgrade to continue using this API.`,
+  });
+
+  await consumeQuota({ principal: { type: 'user', id: key.userId }, meter, limit: null });
+  await prisma.apiKey.update({
+    where: { id: key.id },
+    data: {
+      usageCount: { increment: 1 },
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return usage;
+}
+
+/**
+ * Count a wallet call against its research or chat allowance, and in the
+ * wallet's all-time researchUsed/chatUsed
+ */
+export async function consumeWalletCall(walletAddress: string, meter: Meter, limit: number | null): Promise<QuotaUsage> {
+  const usage = await consumeQuota({
+    principal: { type: 'wallet', id: walletAddress },
+    meter,
+    limit,
+    message: `${meter === 'research' ? 'Research' : 'Chat'} limit reached (${limit} ${quotaPeriodLabel()}). Hold more $UNREPO tokens to reach a higher tier!`,
+  });
+
+  await prisma.walletUser.update({
+    where: { walletAddress },
+    data: {
+      ...(meter === 'research' ? { researchUsed: { increment: 1 } } : { chatUsed: { increment: 1 } }),
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return usage;
+}
@@ -0,0 +1,270 @@
+// USDC payments for premium access
+// A payment starts as an intent (amount, recipient and a Solana Pay reference
+// key). The payer sends a USDC transfer that includes the reference, then
+// submits the signature. The transfer is checked on chain through the Solana
+// RPC provider before the payment is marked VERIFIED and a premium
+// entitlement for PREMIUM_PERIOD_DAYS is granted.
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { Prisma, type Payment } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+import { toRawAmount } from './helius.js';
+import { grantPaymentEntitlement } from './entitlements.js';
+import {
+  getFinalizedTransaction,
+  getSignatureStatus,
+  getSolanaRpcProvider,
+  SolanaRpcError,
+  SolanaRpcUnavailableError,
+  type ParsedTransaction,
+} from './solanaRpc.js';
+
+// Transactions may land slightly before the intent's createdAt because of clock skew
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Thrown when a payment cannot be created or verified; routes answer with
+ * error.status. retryable means the same request may succeed later.
+ */
+export class PaymentError extends Error {
+  constructor(readonly status: number, message: string, readonly retryable = false) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export function serializePayment(payment: Payment) {
+  return {
+    id: payment.id,
+    status: payment.status,
+    amount: payment.amount,
+    currency: payment.currency,
+    recipient: payment.recipient,
+    mint: payment.mint,
+    reference: payment.reference,
+    expiresAt: payment.expiresAt,
+    transactionHash: payment.transactionHash,
+    walletAddress: payment.walletAddress,
+    verifiedAt: payment.verifiedAt,
+    failureReason: payment.failureReason,
+    createdAt: payment.createdAt,
+  };
+}
+
+/**
+ * Solana Pay transfer request URL for wallets that support it
+ */
+function solanaPayUrl(payment: Payment): string {
+  const params = new URLSearchParams({
+    amount: payment.amount.toString(),
+    'spl-token': payment.mint!,
+    reference: payment.reference!,
+    label: 'UnRepo',
+    message: 'UnRepo premium access',
+  });
+  return `solana:${payment.recipient}?${params.toString()}`;
+}
+
+/**
+ * Create a payment intent for a user
+ */
+export async function createPaymentIntent(userId: string) {
+  const { recipient, amountUsdc, usdcMint, usdcDecimals, intentTtlMinutes } = config.payments;
+
+  if (!recipient) {
+    throw new PaymentError(503, 'Payments are not configured');
+  }
+
+  const payment = await prisma.payment.create({
+    data: {
+      userId,
+      amount: amountUsdc,
+      currency: 'USDC',
+      reference: bs58.encode(crypto.randomBytes(32)),
+      recipient,
+      mint: usdcMint,
+      amountRaw: toRawAmount(amountUsdc, usdcDecimals).toString(),
+      expiresAt: new Date(Date.now() + intentTtlMinutes * 60 * 1000),
+    },
+  });
+
+  return { payment, url: solanaPayUrl(payment) };
+}
+
+// Net change in base units of the recipient's token accounts for the mint
+function recipientDelta(transaction: ParsedTransaction, recipient: string, mint: string): bigint {
+  const balances = (side: 'preTokenBalances' | 'postTokenBalances') => {
+    const byAccount = new Map<number, bigint>();
+    for (const entry of transaction.meta?.[side] ?? []) {
+      if (entry.owner === recipient && entry.mint === mint) {
+        byAccount.set(entry.accountIndex, BigInt(entry.uiTokenAmount.amount));
+      }
+    }
+    return byAccount;
+  };
+
+  const pre = balances('preTokenBalances');
+  const post = balances('postTokenBalances');
+  let delta = 0n;
+
+  for (const [index, amount] of post) {
+    delta += amount - (pre.get(index) ?? 0n);
+  }
+
+  return delta;
+}
+
+// Owner whose balance of the mint went down (the payer)
+function payerOf(transaction: ParsedTransaction, mint: string): string | null {
+  const post = transaction.meta?.postTokenBalances ?? [];
+
+  for (const entry of transaction.meta?.preTokenBalances ?? []) {
+    const after = post.find((candidate) => candidate.accountIndex === entry.accountIndex);
+    if (entry.mint === mint && entry.owner && BigInt(entry.uiTokenAmount.amount) > BigInt(after?.uiTokenAmount.amount ?? '0')) {
+      return entry.owner;
+    }
+  }
+
+  return null;
+}
+
+async function failPayment(payment: Payment, reason: string): Promise<never> {
+  await prisma.payment.updateMany({
+    where: { id: payment.id, status: 'PENDING' },
+    data: { status: 'FAILED', failureReason: reason },
+  });
+  throw new PaymentError(410, reason);
+}
+
+/**
+ * Check a transaction against a payment intent and, if it pays it, mark the
+ * payment VERIFIED and grant a premium entitlement. Safe to call again with the same signature.
+ */
+export async function verifyPayment(userId: string, params: { reference: string; signature: string }): Promise<Payment> {
+  const payment = await prisma.payment.findUnique({ where: { reference: params.reference } });
+
+  if (!payment || payment.userId !== userId) {
+    throw new PaymentError(404, 'Payment intent not found');
+  }
+
+  if (payment.status === 'VERIFIED') {
+    if (payment.transactionHash === params.signature) {
+      return payment;
+    }
+    throw new PaymentError(409, 'This payment has already been verified with another transaction');
+  }
+
+  if (payment.status === 'FAILED') {
+    throw new PaymentError(410, payment.failureReason || 'This payment intent has failed. Create a new one');
+  }
+
+  const used = await prisma.payment.findUnique({ where: { transactionHash: params.signature } });
+  if (used) {
+    throw new PaymentError(409, 'This transaction has already been used for a payment');
+  }
+
+  const rpc = getSolanaRpcProvider();
+  if (!rpc) {
+    throw new PaymentError(503, 'Payment verification is unavailable: no Solana RPC endpoint configured', true);
+  }
+
+  let transaction: ParsedTransaction | null;
+
+  try {
+    const status = await getSignatureStatus(rpc, params.signature);
+
+    if (!status) {
+      throw new PaymentError(404, 'Transaction not found. If it was just sent, try again in a few seconds', true);
+    }
+
+    if (status.err) {
+      throw new PaymentError(422, 'Transaction failed on chain');
+    }
+
+    if (status.confirmationStatus !== 'finalized') {
+      throw new PaymentError(409, 'Transaction is not finalized yet. Try again in a few seconds', true);
+    }
+
+    transaction = await getFinalizedTransaction(rpc, params.signature);
+  } catch (error) {
+    if (error instanceof SolanaRpcUnavailableError) {
+      throw new PaymentError(503, 'Solana RPC is unavailable. Try again shortly', true);
+    }
+    if (error instanceof SolanaRpcError) {
+      throw new PaymentError(400, `Could not read the transaction: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (!transaction) {
+    throw new PaymentError(409, 'Transaction is not finalized yet. Try again in a few seconds', true);
+  }
+
+  if (transaction.meta?.err) {
+    throw new PaymentError(422, 'Transaction failed on chain');
+  }
+
+  if (!transaction.transaction.message.accountKeys.some((key) => key.pubkey === payment.reference)) {
+    throw new PaymentError(422, 'Transaction does not include this payment\'s reference');
+  }
+
+  const sentAt = transaction.blockTime !== null ? new Date(transaction.blockTime * 1000) : null;
+
+  if (sentAt && sentAt.getTime() < payment.createdAt.getTime() - CLOCK_SKEW_MS) {
+    throw new PaymentError(422, 'Transaction was sent before this payment intent was created');
+  }
+
+  if (sentAt && payment.expiresAt && sentAt > payment.expiresAt) {
+    await failPayment(payment, 'Transfer was sent after the payment intent expired');
+  }
+
+  const received = recipientDelta(transaction, payment.recipient!, payment.mint!);
+
+  if (received < BigInt(payment.amountRaw!)) {
+    throw new PaymentError(422, `Transaction does not transfer ${payment.amount} USDC to ${payment.recipient}`);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Compare-and-set so concurrent verifications cannot both succeed
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: 'PENDING' },
+        data: {
+          status: 'VERIFIED',
+          transactionHash: params.signature,
+          walletAddress: payerOf(transaction, payment.mint!),
+          verifiedAt: new Date(),
+          failureReason: null,
+        },
+      });
+
+      if (count !== 1) {
+        throw new PaymentError(409, 'This payment has already been processed');
+      }
+
+      const verified = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+
+      await grantPaymentEntitlement(tx, verified);
+      await tx.user.update({
+        where: { id: userId },
+        data: { paymentVerified: true },
+      });
+
+      return verified;
+    });
+  } catch (error) {
+    // Unique transactionHash: another payment claimed this transfer first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new PaymentError(409, 'This transaction has already been used for a payment');
+    }
+    throw error;
+  }
+}
+
+export async function listPayments(userId: string) {
+  return prisma.payment.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
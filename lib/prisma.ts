@@ -1,17 +1,14 @@
 import { PrismaClient } from '@prisma/client';
+import { config } from './config.js';
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
 };
 
 const createPrismaClient = () => {
-  // Verify DATABASE_URL exists
-  if (!process.env.DATABASE_URL) {
-    throw new Error('DATABASE_URL environment variable is not set');
-  }
-
   const client = new PrismaClient({
-    log: process.env.NODE_ENV === 'development' ? ['error', 'warn'] : ['error'],
+    datasourceUrl: config.databaseUrl,
+    log: config.env === 'development' ? ['error', 'warn'] : ['error'],
   });
 
   // Handle connection errors
@@ -24,6 +21,6 @@ const createPrismaClient = () => {
 
 export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+if (!config.isProduction) globalForPrisma.prisma = prisma;
 
 export default prisma;
@@ -1,164 +1,291 @@
-import { NextRequest } from 'next/server';
-import { prisma } from './prisma';
-import { errorResponse } from './validation';
+// Sliding-window rate limiting for the Express API
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import Redis from 'ioredis';
+import { config } from './config.js';
+import { rateLimitKeys } from './validation.js';
+import { findApiKey } from './apiKeys.js';
+import { resolveAccess, type AccessPrincipal } from './entitlements.js';
+import { CallerAuthError, verifyWalletSession } from './sessions.js';
 
-interface RateLimitConfig {
-  maxRequests: number;
-  windowMs: number;
-  message?: string;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type RateLimitTier = 'free' | 'premium';
+export type RateLimitedEndpoint = 'research' | 'chatbot';
+
+/**
+ * Hourly limits without an entitlement (free) and for the premium plan,
+ * applied across all of an account's keys. Token tier plans bring their own
+ * rateLimits (see UNREPO_TOKEN_TIERS) and entitlements may override them.
+ * A key's own ApiKey.rateLimit (when set) is enforced on top of this.
+ */
+export const RATE_LIMITS: Record<RateLimitTier, Record<RateLimitedEndpoint, number>> = {
+  free: { research: 10, chatbot: 20 },
+  premium: { research: 100, chatbot: 200 },
+};
+
+// Hourly limit for an account or wallet from its active entitlements
+async function hourlyLimit(principal: AccessPrincipal, endpoint: RateLimitedEndpoint): Promise<number> {
+  const access = await resolveAccess(principal);
+  return access.rateLimits[endpoint];
+}
+
+// API key generation: 5 per day per caller
+export const KEY_GENERATION_LIMIT = { maxRequests: 5, windowMs: 24 * HOUR_MS };
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
 }
 
 /**
- * Rate limiting middleware for API endpoints
- * Uses database to track request counts per API key
+ * Sliding-window log store. hit() records a request if it fits in the window
+ * and reports the window state either way.
  */
-export async function rateLimit(
-  request: NextRequest,
-  config: RateLimitConfig = { maxRequests: 100, windowMs: 60 * 60 * 1000 }
-): Promise<{ allowed: boolean; remaining: number; resetAt: Date; error?: Response }> {
-  try {
-    const apiKey = request.headers.get('x-api-key');
-    
-    if (!apiKey) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: new Date(),
-        error: errorResponse('API key is required', 401),
-      };
-    }
+export interface RateLimitStore {
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
 
-    // Find API key in database
-    const key = await prisma.apiKey.findFirst({
-      where: {
-        key: apiKey,
-        isActive: true,
-      },
-    });
-
-    if (!key) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: new Date(),
-        error: errorResponse('Invalid or inactive API key', 401),
-      };
-    }
+// In-memory store for tests and single-instance development
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>();
 
-    // Calculate time window
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - config.windowMs);
-
-    // Count requests in current window
-    const requestCount = await prisma.apiUsage.count({
-      where: {
-        apiKeyId: key.id,
-        createdAt: { gte: windowStart },
-      },
-    });
-
-    // Check if rate limit exceeded
-    if (requestCount >= config.maxRequests) {
-      const resetAt = new Date(windowStart.getTime() + config.windowMs);
-      
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt,
-        error: errorResponse(
-          config.message || `Rate limit exceeded. Maximum ${config.maxRequests} requests per ${config.windowMs / 1000 / 60} minutes. Try again at ${resetAt.toISOString()}`,
-          429
-        ),
-      };
-    }
+  constructor(private now: () => number = Date.now) {}
 
-    // Calculate reset time (end of current window)
-    const resetAt = new Date(windowStart.getTime() + config.windowMs);
-    const remaining = config.maxRequests - requestCount;
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = this.now();
+    const timestamps = (this.windows.get(key) || []).filter((time) => time > now - windowMs);
 
+    const allowed = timestamps.length < limit;
+    if (allowed) {
+      timestamps.push(now);
+    }
+    this.windows.set(key, timestamps);
+
+    const oldest = timestamps[0] ?? now;
     return {
-      allowed: true,
-      remaining,
-      resetAt,
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      resetAt: new Date(oldest + windowMs),
     };
-  } catch (error: any) {
-    console.error('Rate limit check error:', error);
+  }
+
+  reset() {
+    this.windows.clear();
+  }
+}
+
+// Atomically trim the window, add the request if allowed, and return the oldest entry
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or now }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const member = `${now}-${crypto.randomBytes(6).toString('hex')}`;
+    const [allowed, count, oldest] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      key,
+      now,
+      windowMs,
+      limit,
+      member
+    ) as [number, number, string | number];
+
     return {
-      allowed: false,
-      remaining: 0,
-      resetAt: new Date(),
-      error: errorResponse('Rate limit check failed', 500),
+      allowed: allowed === 1,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetAt: new Date(Number(oldest) + windowMs),
     };
   }
 }
 
+let store: RateLimitStore | null = null;
+const memoryFallback = new MemoryRateLimitStore();
+
 /**
- * Rate limit configurations for different API endpoints
+ * Redis when REDIS_URL is configured, in-memory otherwise (and in tests)
  */
-export const RATE_LIMITS = {
-  // Research API: 100 requests per hour
-  research: {
-    maxRequests: 100,
-    windowMs: 60 * 60 * 1000, // 1 hour
-    message: 'Research API rate limit exceeded. Maximum 100 requests per hour.',
-  },
-  
-  // Chatbot API: 200 requests per hour
-  chatbot: {
-    maxRequests: 200,
-    windowMs: 60 * 60 * 1000, // 1 hour
-    message: 'Chatbot API rate limit exceeded. Maximum 200 requests per hour.',
-  },
-  
-  // API key generation: 5 per day
-  keyGeneration: {
-    maxRequests: 5,
-    windowMs: 24 * 60 * 60 * 1000, // 24 hours
-    message: 'API key generation rate limit exceeded. Maximum 5 keys per day.',
-  },
-  
-  // Premium tier (token holders): 500 requests per hour
-  premium: {
-    maxRequests: 500,
-    windowMs: 60 * 60 * 1000, // 1 hour
-    message: 'Premium API rate limit exceeded. Maximum 500 requests per hour.',
-  },
-};
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    if (config.redisUrl && !config.isTest) {
+      const redis = new Redis(config.redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+      redis.on('error', (err) => console.error('Redis rate limit error:', err.message));
+      store = new RedisRateLimitStore(redis);
+    } else {
+      store = memoryFallback;
+    }
+  }
+  return store;
+}
+
+// Swap the store (tests)
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+// Fall back to the in-memory store if Redis is unreachable rather than blocking traffic
+async function hitWithFallback(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const active = getRateLimitStore();
+  try {
+    return await active.hit(key, limit, windowMs);
+  } catch (error) {
+    if (active === memoryFallback) throw error;
+    console.error('Rate limit store unavailable, using in-memory fallback:', error);
+    return memoryFallback.hit(key, limit, windowMs);
+  }
+}
 
 /**
- * Check if user is premium (token holder) and apply premium rate limits
+ * Add rate limit headers to response
  */
-export async function checkPremiumRateLimit(apiKey: string): Promise<boolean> {
+export function addRateLimitHeaders(res: Response, result: RateLimitResult) {
+  res.setHeader('X-RateLimit-Limit', result.limit.toString());
+  res.setHeader('X-RateLimit-Remaining', result.remaining.toString());
+  res.setHeader('X-RateLimit-Reset', Math.ceil(result.resetAt.getTime() / 1000).toString());
+
+  if (!result.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
+    res.setHeader('Retry-After', retryAfter.toString());
+  }
+}
+
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+interface RateLimitWindow {
+  key: string;
+  limit: number;
+}
+
+async function hasWalletSession(req: Request, walletAddress: string): Promise<boolean> {
   try {
-    const key = await prisma.apiKey.findFirst({
-      where: {
-        key: apiKey,
-        isActive: true,
-      },
-      include: {
-        user: true,
-      },
-    });
-
-    return key?.user?.isTokenHolder || false;
+    await verifyWalletSession(req.headers.authorization, walletAddress);
+    return true;
   } catch (error) {
-    console.error('Premium check error:', error);
-    return false;
+    if (error instanceof CallerAuthError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Resolve the windows that apply to this caller
+async function resolveWindows(req: Request, endpoint: RateLimitedEndpoint): Promise<RateLimitWindow[]> {
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+  const walletAddress = req.headers['x-wallet-address'] as string | undefined;
+
+  if (apiKey) {
+    const key = await findApiKey(apiKey);
+
+    if (key) {
+      // Per-key window first so a key at its own ceiling does not spend the account's budget
+      const windows: RateLimitWindow[] = key.rateLimit !== null
+        ? [{ key: rateLimitKeys.api(key.id), limit: key.rateLimit }]
+        : [];
+
+      windows.push({ key: `${rateLimitKeys.user(key.userId)}:${endpoint}`, limit: await hourlyLimit({ userId: key.userId, walletAddress: key.user.walletAddress }, endpoint) });
+      return windows;
+    }
+  }
+
+  // The header alone proves nothing: only a caller signed in as the wallet gets its window
+  if (walletAddress && !apiKey && await hasWalletSession(req, walletAddress)) {
+    return [{ key: `${rateLimitKeys.wallet(walletAddress)}:${endpoint}`, limit: await hourlyLimit({ walletAddress }, endpoint) }];
+  }
+
+  // Unknown callers are limited by IP at the free tier
+  return [{ key: `${rateLimitKeys.ip(clientIp(req))}:${endpoint}`, limit: RATE_LIMITS.free[endpoint] }];
+}
+
+// Check windows in order and stop at the first one that blocks
+async function applyWindows(res: Response, windows: RateLimitWindow[], windowMs: number): Promise<RateLimitResult> {
+  let tightest: RateLimitResult | null = null;
+
+  for (const window of windows) {
+    const result = await hitWithFallback(window.key, window.limit, windowMs);
+
+    if (!result.allowed) {
+      addRateLimitHeaders(res, result);
+      return result;
+    }
+
+    if (!tightest || result.remaining < tightest.remaining) {
+      tightest = result;
+    }
   }
+
+  addRateLimitHeaders(res, tightest!);
+  return tightest!;
 }
 
 /**
- * Add rate limit headers to response
+ * Express middleware enforcing tiered, per-key sliding-window rate limits
  */
-export function addRateLimitHeaders(
-  response: Response,
-  limit: number,
-  remaining: number,
-  resetAt: Date
-): Response {
-  response.headers.set('X-RateLimit-Limit', limit.toString());
-  response.headers.set('X-RateLimit-Remaining', remaining.toString());
-  response.headers.set('X-RateLimit-Reset', Math.floor(resetAt.getTime() / 1000).toString());
-  
-  return response;
+export function rateLimit(endpoint: RateLimitedEndpoint) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const windows = await resolveWindows(req, endpoint);
+      const result = await applyWindows(res, windows, HOUR_MS);
+
+      if (!result.allowed) {
+        return res.status(429).json({
+          success: false,
+          error: `Rate limit exceeded. Maximum ${result.limit} ${endpoint} requests per hour. Try again at ${result.resetAt.toISOString()}`,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Rate limit check error:', error);
+      res.status(500).json({ success: false, error: 'Rate limit check failed' });
+    }
+  };
+}
+
+/**
+ * Express middleware limiting API key generation per user (or IP when unauthenticated)
+ */
+export function keyGenerationRateLimit() {
+  return async (req: Request & { userId?: string }, res: Response, next: NextFunction) => {
+    try {
+      const key = `${req.userId ? rateLimitKeys.user(req.userId) : rateLimitKeys.ip(clientIp(req))}:keygen`;
+      const result = await applyWindows(res, [{ key, limit: KEY_GENERATION_LIMIT.maxRequests }], KEY_GENERATION_LIMIT.windowMs);
+
+      if (!result.allowed) {
+        return res.status(429).json({
+          success: false,
+          error: `API key generation rate limit exceeded. Maximum ${KEY_GENERATION_LIMIT.maxRequests} keys per day.`,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Rate limit check error:', error);
+      res.status(500).json({ success: false, error: 'Rate limit check failed' });
+    }
+  };
 }
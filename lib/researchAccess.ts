@@ -0,0 +1,151 @@
+// Access control and usage logging for the repository analysis endpoints
+// (/api/v1/research and /api/v1/analyze)
+import type { WalletUser } from '@prisma/client';
+import type { Response } from 'express';
+import { prisma } from './prisma.js';
+import { findApiKey, type ResolvedApiKey } from './apiKeys.js';
+import { assertKeyScope, type ScopeCheck } from './apiKeyScopes.js';
+import { CallerAuthError, verifyWalletSession } from './sessions.js';
+import { resolveAccess } from './entitlements.js';
+import { consumeApiKeyCall, consumeWalletCall, type QuotaUsage } from './metering.js';
+import { setApiUsageContext } from './apiUsage.js';
+import { assertWithinSpendCap, type LlmCaller } from './llmSpend.js';
+
+export type ResearchPrincipal =
+  | { type: 'apiKey'; key: ResolvedApiKey; usage: QuotaUsage }
+  | { type: 'wallet'; wallet: WalletUser; usage: QuotaUsage };
+
+// Verify API key with unrepo_research_ prefix and check it is allowed to make this request
+export async function verifyResearchApiKey(apiKey: string, scope: ScopeCheck) {
+  if (!apiKey.startsWith('unrepo_research_')) {
+    throw new CallerAuthError(401, 'Invalid API key format. Research API keys must start with unrepo_research_');
+  }
+
+  const key = await findApiKey(apiKey, { type: 'RESEARCH' });
+
+  if (!key) {
+    throw new CallerAuthError(401, 'Invalid, inactive or expired API key');
+  }
+
+  assertKeyScope(key, scope);
+  await assertWithinSpendCap(key);
+
+  // Without an entitlement a key gets FREE_API_CALLS calls per quota period
+  const access = await resolveAccess({ userId: key.userId, walletAddress: key.user.walletAddress });
+  const usage = await consumeApiKeyCall(key, 'research', access.apiCallLimits.research);
+
+  return { key, usage };
+}
+
+// Verify the caller is signed in as the wallet, that it has research access, and count the call
+export async function verifyWalletResearchAccess(walletAddress: string, authorization: string | undefined) {
+  await verifyWalletSession(authorization, walletAddress);
+
+  const walletUser = await prisma.walletUser.findUnique({
+    where: { walletAddress }
+  });
+
+  if (!walletUser) {
+    throw new CallerAuthError(403, 'Wallet not registered. Please connect and register your wallet first.');
+  }
+
+  // Entitlements (token tier, premium on the linked account) raise the free allowance
+  const access = await resolveAccess({ walletAddress }, walletUser);
+  const usage = await consumeWalletCall(walletAddress, 'research', access.researchLimit);
+
+  return { wallet: walletUser, usage };
+}
+
+/**
+ * Authenticate a research request by API key (x-api-key) or by wallet
+ * (x-wallet-address plus a Sign-in with Solana access token in authorization).
+ * Key scopes are checked before the call is counted.
+ */
+export async function authorizeResearchRequest(
+  headers: {
+    apiKey?: string;
+    walletAddress?: string;
+    authorization?: string;
+  },
+  scope: ScopeCheck
+): Promise<ResearchPrincipal> {
+  if (headers.apiKey) {
+    return { type: 'apiKey', ...await verifyResearchApiKey(headers.apiKey, scope) };
+  }
+
+  if (headers.walletAddress) {
+    return { type: 'wallet', ...await verifyWalletResearchAccess(headers.walletAddress, headers.authorization) };
+  }
+
+  throw new CallerAuthError(401, 'API key (x-api-key) or wallet address (x-wallet-address) is required');
+}
+
+/**
+ * Identify the caller without counting a call (used for job status polling)
+ */
+export async function identifyResearchCaller(headers: {
+  apiKey?: string;
+  walletAddress?: string;
+  authorization?: string;
+}): Promise<{ userId: string | null; walletAddress: string | null } | null> {
+  if (headers.apiKey) {
+    const key = await findApiKey(headers.apiKey, { type: 'RESEARCH' });
+    return key ? { userId: key.userId, walletAddress: null } : null;
+  }
+
+  if (headers.walletAddress) {
+    try {
+      await verifyWalletSession(headers.authorization, headers.walletAddress);
+    } catch (error) {
+      if (error instanceof CallerAuthError) {
+        return null;
+      }
+      throw error;
+    }
+
+    const wallet = await prisma.walletUser.findUnique({
+      where: { walletAddress: headers.walletAddress },
+    });
+    return wallet ? { userId: null, walletAddress: wallet.walletAddress } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Who LLM spend for the call is charged to
+ */
+export function llmCaller(principal: ResearchPrincipal): LlmCaller {
+  return principal.type === 'apiKey'
+    ? { userId: principal.key.userId, apiKeyId: principal.key.id }
+    : { walletAddress: principal.wallet.walletAddress };
+}
+
+/**
+ * Attach the research call to the API usage log. API key calls are written to
+ * ApiUsage with their response status once the response is sent; quota was
+ * already counted by the metering service when the caller was authorized.
+ */
+export function logResearchUsage(res: Response, principal: ResearchPrincipal, requestData: Record<string, unknown>) {
+  if (principal.type !== 'apiKey') {
+    return;
+  }
+
+  setApiUsageContext(res, {
+    userId: principal.key.userId,
+    apiKeyId: principal.key.id,
+    requestData,
+  });
+}
+
+/**
+ * Usage summary returned alongside research results
+ */
+export function researchUsageSummary(principal: ResearchPrincipal) {
+  return {
+    type: principal.type,
+    count: principal.usage.used,
+    limit: principal.usage.limit,
+    resetsAt: principal.usage.resetsAt,
+  };
+}
@@ -0,0 +1,156 @@
+// Admin score overrides for repository analysis
+// Overrides are never deleted: revoking one stamps revokedAt/revokedById so the
+// table doubles as an audit trail of who changed which scores, why and when.
+import type { ScoreOverride } from '@prisma/client';
+import { prisma } from './prisma.js';
+import type { AIAnalysisResult } from './ai.js';
+
+export interface ScoreOverrideInput {
+  repoOwner: string;
+  repoName: string;
+  codeQuality?: number;
+  rugPotential?: number;
+  longTerm?: number;
+  maintainability?: number;
+  scalability?: number;
+  reason: string;
+  expiresAt?: Date | null;
+}
+
+export interface AppliedOverride {
+  id: string;
+  reason: string;
+  setBy: string;
+  setAt: string;
+  expiresAt: string | null;
+  fields: string[];
+  original: Partial<Pick<AIAnalysisResult, 'codeQuality' | 'rugPotential'>> & {
+    sustainability?: Partial<AIAnalysisResult['sustainability']>;
+  };
+}
+
+/**
+ * Find the most recent active override for a repository
+ */
+export async function findActiveOverride(owner: string, repo: string) {
+  return prisma.scoreOverride.findFirst({
+    where: {
+      repoOwner: owner.toLowerCase(),
+      repoName: repo.toLowerCase(),
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    include: { createdBy: { select: { id: true, githubUsername: true, name: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Record a new override set by an admin
+ */
+export async function createOverride(createdById: string, input: ScoreOverrideInput): Promise<ScoreOverride> {
+  return prisma.scoreOverride.create({
+    data: {
+      repoOwner: input.repoOwner.toLowerCase(),
+      repoName: input.repoName.toLowerCase(),
+      codeQuality: input.codeQuality,
+      rugPotential: input.rugPotential,
+      longTerm: input.longTerm,
+      maintainability: input.maintainability,
+      scalability: input.scalability,
+      reason: input.reason,
+      expiresAt: input.expiresAt ?? null,
+      createdById,
+    },
+  });
+}
+
+/**
+ * Revoke an override. Returns null if it does not exist or is already revoked.
+ */
+export async function revokeOverride(id: string, revokedById: string, reason?: string): Promise<ScoreOverride | null> {
+  const existing = await prisma.scoreOverride.findUnique({ where: { id } });
+
+  if (!existing || existing.revokedAt) {
+    return null;
+  }
+
+  return prisma.scoreOverride.update({
+    where: { id },
+    data: {
+      revokedAt: new Date(),
+      revokedById,
+      revokeReason: reason,
+    },
+  });
+}
+
+/**
+ * List overrides (including revoked and expired ones) for auditing
+ */
+export async function listOverrides(filter: { owner?: string; repo?: string; activeOnly?: boolean }) {
+  return prisma.scoreOverride.findMany({
+    where: {
+      ...(filter.owner ? { repoOwner: filter.owner.toLowerCase() } : {}),
+      ...(filter.repo ? { repoName: filter.repo.toLowerCase() } : {}),
+      ...(filter.activeOnly
+        ? { revokedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }
+        : {}),
+    },
+    include: {
+      createdBy: { select: { id: true, githubUsername: true, name: true } },
+      revokedBy: { select: { id: true, githubUsername: true, name: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Apply an override to a computed analysis.
+ * Returns the adjusted analysis plus a description of what was replaced.
+ */
+export function applyOverride(
+  analysis: AIAnalysisResult,
+  override: NonNullable<Awaited<ReturnType<typeof findActiveOverride>>>
+): { analysis: AIAnalysisResult; override: AppliedOverride } {
+  const result: AIAnalysisResult = {
+    ...analysis,
+    sustainability: { ...analysis.sustainability },
+  };
+  const original: AppliedOverride['original'] = {};
+  const fields: string[] = [];
+
+  if (override.codeQuality !== null) {
+    original.codeQuality = analysis.codeQuality;
+    result.codeQuality = override.codeQuality;
+    fields.push('codeQuality');
+  }
+
+  if (override.rugPotential !== null) {
+    original.rugPotential = analysis.rugPotential;
+    result.rugPotential = override.rugPotential;
+    fields.push('rugPotential');
+  }
+
+  for (const field of ['longTerm', 'maintainability', 'scalability'] as const) {
+    const value = override[field];
+    if (value !== null) {
+      original.sustainability = { ...original.sustainability, [field]: analysis.sustainability[field] };
+      result.sustainability[field] = value;
+      fields.push(`sustainability.${field}`);
+    }
+  }
+
+  return {
+    analysis: result,
+    override: {
+      id: override.id,
+      reason: override.reason,
+      setBy: override.createdBy.githubUsername || override.createdBy.name || override.createdBy.id,
+      setAt: override.createdAt.toISOString(),
+      expiresAt: override.expiresAt ? override.expiresAt.toISOString() : null,
+      fields,
+      original,
+    },
+  };
+}
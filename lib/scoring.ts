@@ -0,0 +1,284 @@
+// Rule-based repository scoring
+// Every score is derived from measurable repository signals so the same
+// inputs always produce the same numbers, with a per-signal audit trail.
+import type { FileNode } from '../types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TEST_PATH_PATTERNS = [
+  /(^|\/)(test|tests|__tests__|spec|specs)\//i,
+  /\.(test|spec)\.[cm]?[jt]sx?$/i,
+  /_test\.(go|py|rs)$/i,
+  /(^|\/)test_[^/]+\.py$/i,
+  /Tests?\.(java|kt|cs|swift)$/,
+];
+
+const CI_PATH_PATTERNS = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/i,
+  /^\.gitlab-ci\.ya?ml$/i,
+  /^\.circleci\/config\.ya?ml$/i,
+  /^\.travis\.ya?ml$/i,
+  /^azure-pipelines\.ya?ml$/i,
+  /^bitbucket-pipelines\.ya?ml$/i,
+  /^Jenkinsfile$/,
+];
+
+const LOCKFILES = [
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'bun.lock',
+  'Cargo.lock',
+  'go.sum',
+  'poetry.lock',
+  'Pipfile.lock',
+  'uv.lock',
+  'Gemfile.lock',
+  'composer.lock',
+];
+
+export interface RepositorySignals {
+  hasTests: boolean;
+  testFileCount: number;
+  hasCi: boolean;
+  ciFiles: string[];
+  hasLockfile: boolean;
+  lockfiles: string[];
+  hasReadme: boolean;
+  hasLicense: boolean;
+  license: string | null;
+  commitCount: number;
+  commitsLast90Days: number;
+  activeWeeksLast12: number;
+  daysSinceLastCommit: number | null;
+  contributorCount: number;
+  topContributorShare: number | null; // 0-1 share of contributions
+}
+
+export interface SignalInputs {
+  paths: string[];
+  license?: string | null;
+  commits: Array<{ date?: string | null }>;
+  contributors: Array<{ login?: string | null; contributions: number }>;
+  analyzedAt: Date;
+}
+
+export interface ScoreSignal {
+  signal: string;
+  description: string;
+  value: string | number | boolean | null;
+  points: number;
+  maxPoints: number;
+}
+
+export interface ScoreBreakdown {
+  codeQuality: ScoreSignal[];
+  rugPotential: ScoreSignal[];
+  sustainability: {
+    longTerm: ScoreSignal[];
+    maintainability: ScoreSignal[];
+    scalability: ScoreSignal[];
+  };
+}
+
+export interface RepositoryScores {
+  codeQuality: number;
+  rugPotential: number;
+  sustainability: {
+    longTerm: number;
+    maintainability: number;
+    scalability: number;
+  };
+  signals: RepositorySignals;
+  breakdown: ScoreBreakdown;
+}
+
+/**
+ * Flatten a GitHub file tree into the list of file paths it contains
+ */
+export function collectFilePaths(node: FileNode | null | undefined): string[] {
+  if (!node) return [];
+
+  const paths: string[] = [];
+  const stack: FileNode[] = [node];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current.children) {
+      stack.push(...current.children);
+    } else if (current.path) {
+      paths.push(current.path);
+    }
+  }
+
+  return paths.sort();
+}
+
+function basename(path: string): string {
+  const parts = path.split('/');
+  return parts[parts.length - 1];
+}
+
+/**
+ * Extract measurable signals from repository data
+ */
+export function extractSignals(inputs: SignalInputs): RepositorySignals {
+  const { paths, commits, contributors, analyzedAt } = inputs;
+
+  const testFiles = paths.filter((path) => TEST_PATH_PATTERNS.some((pattern) => pattern.test(path)));
+  const ciFiles = paths.filter((path) => CI_PATH_PATTERNS.some((pattern) => pattern.test(path)));
+  const lockfiles = paths.filter((path) => LOCKFILES.includes(basename(path)));
+  const hasReadme = paths.some((path) => /^readme(\.[a-z]+)?$/i.test(path));
+  const licenseFile = paths.some((path) => /^(licen[cs]e|copying)(\.[a-z]+)?$/i.test(path));
+  const license = inputs.license || null;
+
+  const commitTimes = commits
+    .map((commit) => (commit.date ? new Date(commit.date).getTime() : NaN))
+    .filter((time) => Number.isFinite(time));
+  const now = analyzedAt.getTime();
+  const latestCommit = commitTimes.length > 0 ? Math.max(...commitTimes) : null;
+
+  const activeWeeks = new Set(
+    commitTimes
+      .map((time) => Math.floor((now - time) / (7 * DAY_MS)))
+      .filter((week) => week >= 0 && week < 12)
+  );
+
+  const totalContributions = contributors.reduce((sum, c) => sum + (c.contributions || 0), 0);
+  const topContributions = contributors.reduce((max, c) => Math.max(max, c.contributions || 0), 0);
+
+  return {
+    hasTests: testFiles.length > 0,
+    testFileCount: testFiles.length,
+    hasCi: ciFiles.length > 0,
+    ciFiles,
+    hasLockfile: lockfiles.length > 0,
+    lockfiles,
+    hasReadme,
+    hasLicense: Boolean(license && license !== 'NOASSERTION') || licenseFile,
+    license,
+    commitCount: commitTimes.length,
+    commitsLast90Days: commitTimes.filter((time) => now - time <= 90 * DAY_MS).length,
+    activeWeeksLast12: activeWeeks.size,
+    daysSinceLastCommit: latestCommit === null ? null : Math.max(0, Math.floor((now - latestCommit) / DAY_MS)),
+    contributorCount: contributors.length,
+    topContributorShare: totalContributions > 0
+      ? Math.round((topContributions / totalContributions) * 100) / 100
+      : null,
+  };
+}
+
+function signal(
+  name: string,
+  description: string,
+  value: ScoreSignal['value'],
+  points: number,
+  maxPoints: number
+): ScoreSignal {
+  return { signal: name, description, value, points, maxPoints };
+}
+
+function total(signals: ScoreSignal[]): number {
+  const points = signals.reduce((sum, s) => sum + s.points, 0);
+  const max = signals.reduce((sum, s) => sum + s.maxPoints, 0);
+  return max > 0 ? Math.round((points / max) * 100) : 0;
+}
+
+function testPoints(signals: RepositorySignals, maxPoints: number): number {
+  if (signals.testFileCount >= 5) return maxPoints;
+  if (signals.testFileCount > 0) return Math.round(maxPoints * 0.6);
+  return 0;
+}
+
+function codeQualitySignals(s: RepositorySignals): ScoreSignal[] {
+  const recent = s.daysSinceLastCommit !== null && s.daysSinceLastCommit <= 90;
+
+  return [
+    signal('tests', 'Test files present (full credit at 5 or more)', s.testFileCount, testPoints(s, 30), 30),
+    signal('ci', 'Continuous integration configuration', s.hasCi, s.hasCi ? 20 : 0, 20),
+    signal('lockfile', 'Dependency lockfile committed', s.hasLockfile, s.hasLockfile ? 15 : 0, 15),
+    signal('readme', 'README at repository root', s.hasReadme, s.hasReadme ? 10 : 0, 10),
+    signal('license', 'License declared', s.license || s.hasLicense, s.hasLicense ? 10 : 0, 10),
+    signal('recentActivity', 'Commit within the last 90 days', s.daysSinceLastCommit, recent ? 15 : 0, 15),
+  ];
+}
+
+// Risk points: higher means more risk
+function rugPotentialSignals(s: RepositorySignals): ScoreSignal[] {
+  const share = s.topContributorShare;
+  const concentration = s.contributorCount <= 1 || (share !== null && share > 0.9)
+    ? 25
+    : share !== null && share > 0.75 ? 15 : 0;
+
+  const staleness = s.daysSinceLastCommit === null || s.daysSinceLastCommit > 180
+    ? 20
+    : s.daysSinceLastCommit > 90 ? 10 : 0;
+
+  return [
+    signal('noLicense', 'No license declared', !s.hasLicense, s.hasLicense ? 0 : 20, 20),
+    signal('contributorConcentration', 'Single contributor or top contributor above 75% of contributions', share, concentration, 25),
+    signal('inactivity', 'No commits in 90 (partial) or 180 (full) days', s.daysSinceLastCommit, staleness, 20),
+    signal('noTests', 'No test files found', !s.hasTests, s.hasTests ? 0 : 15, 15),
+    signal('noCi', 'No continuous integration configuration', !s.hasCi, s.hasCi ? 0 : 10, 10),
+    signal('shortHistory', 'Fewer than 10 commits in history sample', s.commitCount, s.commitCount < 10 ? 10 : 0, 10),
+  ];
+}
+
+function longTermSignals(s: RepositorySignals): ScoreSignal[] {
+  const contributorPoints = s.contributorCount >= 5 ? 25 : s.contributorCount >= 2 ? 12 : 0;
+  const spreadPoints = s.topContributorShare !== null && s.topContributorShare <= 0.6 ? 15 : 0;
+  const cadencePoints = Math.round((Math.min(s.activeWeeksLast12, 12) / 12) * 40);
+
+  return [
+    signal('contributors', 'Contributor count (full credit at 5 or more)', s.contributorCount, contributorPoints, 25),
+    signal('contributorSpread', 'Top contributor at or below 60% of contributions', s.topContributorShare, spreadPoints, 15),
+    signal('commitCadence', 'Weeks with commits in the last 12 weeks', s.activeWeeksLast12, cadencePoints, 40),
+    signal('license', 'License declared', s.license || s.hasLicense, s.hasLicense ? 20 : 0, 20),
+  ];
+}
+
+function maintainabilitySignals(s: RepositorySignals): ScoreSignal[] {
+  return [
+    signal('tests', 'Test files present (full credit at 5 or more)', s.testFileCount, testPoints(s, 40), 40),
+    signal('ci', 'Continuous integration configuration', s.hasCi, s.hasCi ? 30 : 0, 30),
+    signal('readme', 'README at repository root', s.hasReadme, s.hasReadme ? 30 : 0, 30),
+  ];
+}
+
+function scalabilitySignals(s: RepositorySignals): ScoreSignal[] {
+  const teamPoints = s.contributorCount >= 3 ? 30 : s.contributorCount === 2 ? 15 : 0;
+
+  return [
+    signal('lockfile', 'Reproducible dependency installs (lockfile)', s.hasLockfile, s.hasLockfile ? 35 : 0, 35),
+    signal('ci', 'Automated build and test pipeline', s.hasCi, s.hasCi ? 35 : 0, 35),
+    signal('team', 'More than one active contributor (full credit at 3 or more)', s.contributorCount, teamPoints, 30),
+  ];
+}
+
+/**
+ * Score a repository from its signals
+ */
+export function scoreRepository(signals: RepositorySignals): RepositoryScores {
+  const breakdown: ScoreBreakdown = {
+    codeQuality: codeQualitySignals(signals),
+    rugPotential: rugPotentialSignals(signals),
+    sustainability: {
+      longTerm: longTermSignals(signals),
+      maintainability: maintainabilitySignals(signals),
+      scalability: scalabilitySignals(signals),
+    },
+  };
+
+  return {
+    codeQuality: total(breakdown.codeQuality),
+    rugPotential: total(breakdown.rugPotential),
+    sustainability: {
+      longTerm: total(breakdown.sustainability.longTerm),
+      maintainability: total(breakdown.sustainability.maintainability),
+      scalability: total(breakdown.sustainability.scalability),
+    },
+    signals,
+    breakdown,
+  };
+}
@@ -0,0 +1,229 @@
+// Sign-in sessions: short-lived JWT access tokens plus rotating refresh tokens
+// Each Session row holds the hash of the current refresh token. Refreshing
+// swaps in a new one; presenting a replaced token again revokes the session,
+// since it means the token was copied.
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { User } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+
+export interface SessionMeta {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+  refreshExpiresAt: Date;
+}
+
+interface AccessTokenPayload {
+  userId: string;
+  sid: string;
+}
+
+/**
+ * Thrown for unknown, expired, revoked or reused tokens; routes answer with 401
+ */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Thrown when an API caller cannot be identified or is not allowed in: a bad
+ * API key, or a wallet that is not signed in or not registered. Routes answer
+ * with error.status (401 or 403).
+ */
+export class CallerAuthError extends Error {
+  constructor(readonly status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'CallerAuthError';
+  }
+}
+
+function accessTokenTtlSeconds(): number {
+  return Math.round(config.auth.accessTokenTtlMinutes * 60);
+}
+
+function refreshTokenTtlMs(): number {
+  return config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(): string {
+  return 'unrepo_refresh_' + crypto.randomBytes(32).toString('base64url');
+}
+
+function signAccessToken(user: User, sessionId: string): string {
+  return jwt.sign(
+    {
+      userId: user.id,
+      sid: sessionId,
+      authMethod: user.authMethod,
+      githubId: user.githubId,
+      walletAddress: user.walletAddress,
+    },
+    config.auth.jwtSecret,
+    { expiresIn: accessTokenTtlSeconds() }
+  );
+}
+
+/**
+ * Start a session after sign-in
+ */
+export async function createSession(user: User, meta: SessionMeta = {}): Promise<SessionTokens> {
+  const refreshToken = newRefreshToken();
+  const refreshExpiresAt = new Date(Date.now() + refreshTokenTtlMs());
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      sessionToken: hashToken(refreshToken),
+      expires: refreshExpiresAt,
+      ip: meta.ip,
+      userAgent: meta.userAgent,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(user, session.id),
+    refreshToken,
+    expiresIn: accessTokenTtlSeconds(),
+    refreshExpiresAt,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ */
+export async function refreshSession(refreshToken: string, meta: SessionMeta = {}): Promise<SessionTokens> {
+  const tokenHash = hashToken(refreshToken);
+  const session = await prisma.session.findUnique({
+    where: { sessionToken: tokenHash },
+    include: { user: true },
+  });
+
+  if (!session) {
+    // A replaced token coming back means it leaked; end that session
+    const reused = await prisma.session.findUnique({ where: { previousSessionToken: tokenHash } });
+    if (reused && !reused.revokedAt) {
+      await revokeSession(reused.id);
+      console.warn(`⚠️ Refresh token reuse detected, revoked session ${reused.id}`);
+    }
+    throw new SessionError('Invalid refresh token');
+  }
+
+  if (session.revokedAt || session.expires <= new Date()) {
+    throw new SessionError('Session has expired or was revoked. Please sign in again');
+  }
+
+  const nextToken = newRefreshToken();
+  const refreshExpiresAt = new Date(Date.now() + refreshTokenTtlMs());
+
+  // Compare-and-set on the old hash so two concurrent refreshes cannot both succeed
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, sessionToken: tokenHash, revokedAt: null },
+    data: {
+      sessionToken: hashToken(nextToken),
+      previousSessionToken: tokenHash,
+      expires: refreshExpiresAt,
+      lastUsedAt: new Date(),
+      ip: meta.ip,
+      userAgent: meta.userAgent,
+    },
+  });
+
+  if (count !== 1) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  return {
+    accessToken: signAccessToken(session.user, session.id),
+    refreshToken: nextToken,
+    expiresIn: accessTokenTtlSeconds(),
+    refreshExpiresAt,
+  };
+}
+
+/**
+ * Verify an access token and its session. Tokens without a session (issued
+ * before sessions existed) and tokens of revoked sessions are rejected.
+ */
+export async function verifyAccessToken(token: string) {
+  let payload: AccessTokenPayload;
+  try {
+    payload = jwt.verify(token, config.auth.jwtSecret) as AccessTokenPayload;
+  } catch {
+    throw new SessionError('Invalid token');
+  }
+
+  if (!payload.sid) {
+    throw new SessionError('Session expired. Please sign in again');
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: { user: true },
+  });
+
+  if (!session || session.userId !== payload.userId || session.revokedAt || session.expires <= new Date()) {
+    throw new SessionError('Session has expired or was revoked. Please sign in again');
+  }
+
+  return { sessionId: session.id, user: session.user };
+}
+
+/**
+ * Check that a wallet caller (x-wallet-address) is signed in as that wallet
+ * with Sign-in with Solana: the bearer access token must belong to the
+ * account the wallet is linked to. The header alone proves nothing.
+ */
+export async function verifyWalletSession(authorization: string | undefined, walletAddress: string): Promise<User> {
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new CallerAuthError(401, 'Wallet callers must sign in with their wallet and send the access token (Authorization: Bearer)');
+  }
+
+  let user: User;
+  try {
+    ({ user } = await verifyAccessToken(authorization.substring(7)));
+  } catch (error) {
+    if (error instanceof SessionError) {
+      throw new CallerAuthError(401, error.message);
+    }
+    throw error;
+  }
+
+  if (user.walletAddress !== walletAddress) {
+    throw new CallerAuthError(403, 'The access token does not belong to this wallet');
+  }
+
+  return user;
+}
+
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Log out everywhere: revoke every active session of a user
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
@@ -0,0 +1,363 @@
+// Solana JSON-RPC access behind a provider interface
+// Providers: Helius, any JSON-RPC URL (mainnet, devnet, localnet) and an
+// in-memory fixture for offline use. The default provider tries each
+// configured endpoint in turn, retrying transport failures with backoff.
+// Tests swap it with setSolanaRpcProvider().
+import { readFileSync } from 'fs';
+import { config } from './config.js';
+
+export interface SolanaRpcProvider {
+  readonly name: string;
+  request<T = unknown>(method: string, params: unknown[]): Promise<T>;
+}
+
+/**
+ * Transport failure (network, timeout, 429/5xx): worth retrying or failing over
+ */
+export class SolanaRpcUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SolanaRpcUnavailableError';
+  }
+}
+
+/**
+ * The node answered with a JSON-RPC error; retrying elsewhere will not help
+ */
+export class SolanaRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'SolanaRpcError';
+  }
+}
+
+export interface ParsedTokenAccount {
+  pubkey: string;
+  account: { data: { program: string; parsed: { info: { mint: string; owner: string; tokenAmount: { amount: string; decimals: number } } } } };
+}
+
+export interface TransactionTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+// Subset of a jsonParsed getTransaction result used for payment checks
+export interface ParsedTransaction {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown;
+    preTokenBalances?: TransactionTokenBalance[];
+    postTokenBalances?: TransactionTokenBalance[];
+  } | null;
+  transaction: { message: { accountKeys: Array<{ pubkey: string }> } };
+}
+
+export interface SignatureStatus {
+  slot: number;
+  err: unknown;
+  confirmationStatus: 'processed' | 'confirmed' | 'finalized' | null;
+}
+
+// Keep API keys in query strings, paths and credentials out of logs and error messages
+function redact(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname === '/' ? '' : '/***';
+    const query = parsed.search ? '?***' : '';
+    return `${parsed.protocol}//${parsed.host}${path}${query}`;
+  } catch {
+    return 'invalid url';
+  }
+}
+
+let requestId = 0;
+
+/**
+ * Provider for any Solana JSON-RPC endpoint
+ */
+export function createJsonRpcProvider(
+  url: string,
+  options: { name?: string; headers?: Record<string, string>; timeoutMs?: number; fetchImpl?: typeof fetch } = {}
+): SolanaRpcProvider {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const name = options.name ?? redact(url);
+
+  return {
+    name,
+    async request<T>(method: string, params: unknown[]): Promise<T> {
+      let response: Response;
+
+      try {
+        response = await fetchImpl(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...options.headers },
+          body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+          signal: AbortSignal.timeout(options.timeoutMs ?? config.solana.rpcTimeoutMs),
+        });
+      } catch (error: any) {
+        throw new SolanaRpcUnavailableError(`${name}: ${error.message}`);
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        throw new SolanaRpcUnavailableError(`${name}: HTTP ${response.status}`);
+      }
+
+      let data: { result?: T; error?: { code: number; message: string } };
+      try {
+        data = await response.json() as typeof data;
+      } catch {
+        throw new SolanaRpcUnavailableError(`${name}: invalid JSON response (HTTP ${response.status})`);
+      }
+
+      if (data.error) {
+        throw new SolanaRpcError(data.error.code, `${name}: ${data.error.message}`);
+      }
+
+      if (!response.ok || !('result' in data)) {
+        throw new SolanaRpcUnavailableError(`${name}: unexpected response (HTTP ${response.status})`);
+      }
+
+      return data.result as T;
+    },
+  };
+}
+
+/**
+ * Helius mainnet RPC. Helius RPC endpoints authenticate only by the api-key
+ * query parameter (there is no header option), so the URL is never logged:
+ * the provider name and every error message use a redacted label.
+ */
+export function createHeliusProvider(apiKey: string, options: { cluster?: 'mainnet' | 'devnet'; fetchImpl?: typeof fetch } = {}) {
+  const host = options.cluster === 'devnet' ? 'devnet.helius-rpc.com' : 'mainnet.helius-rpc.com';
+  return createJsonRpcProvider(`https://${host}/?api-key=${encodeURIComponent(apiKey)}`, {
+    name: `helius-${options.cluster ?? 'mainnet'}`,
+    fetchImpl: options.fetchImpl,
+  });
+}
+
+export interface FixtureTokenAccount {
+  owner: string;
+  mint: string;
+  amount: bigint | string; // base units
+  decimals: number;
+  program?: 'spl-token' | 'spl-token-2022';
+}
+
+export interface FixtureTransaction {
+  confirmationStatus?: 'processed' | 'confirmed' | 'finalized'; // default finalized
+  err?: unknown;
+  blockTime?: number; // unix seconds, default now
+  accountKeys: string[];
+  tokenBalances: Array<{ owner: string; mint: string; decimals: number; pre: string; post: string }>;
+}
+
+export interface SolanaFixtures {
+  tokenAccounts?: FixtureTokenAccount[];
+  transactions?: Record<string, FixtureTransaction>; // by signature
+}
+
+function fixtureTransaction(fixture: FixtureTransaction): ParsedTransaction {
+  const balances = (side: 'pre' | 'post') => fixture.tokenBalances.map((entry, index) => ({
+    accountIndex: fixture.accountKeys.length + index,
+    mint: entry.mint,
+    owner: entry.owner,
+    uiTokenAmount: { amount: entry[side], decimals: entry.decimals },
+  }));
+
+  return {
+    slot: 1,
+    blockTime: fixture.blockTime ?? Math.floor(Date.now() / 1000),
+    meta: { err: fixture.err ?? null, preTokenBalances: balances('pre'), postTokenBalances: balances('post') },
+    transaction: { message: { accountKeys: fixture.accountKeys.map((pubkey) => ({ pubkey })) } },
+  };
+}
+
+/**
+ * In-memory provider answering from fixtures, for offline development and tests.
+ * Set `failWith` to simulate an outage.
+ */
+export function createFixtureProvider(fixtures: SolanaFixtures = {}) {
+  const provider = {
+    name: 'fixture',
+    fixtures,
+    failWith: null as Error | null,
+
+    async request<T>(method: string, params: unknown[]): Promise<T> {
+      if (provider.failWith) {
+        throw provider.failWith;
+      }
+
+      if (method === 'getTokenAccountsByOwner') {
+        const [owner, filter] = params as [string, { mint?: string }];
+        const value: ParsedTokenAccount[] = (fixtures.tokenAccounts ?? [])
+          .filter((account) => account.owner === owner && (!filter?.mint || account.mint === filter.mint))
+          .map((account, index) => ({
+            pubkey: `fixture-${owner.slice(0, 8)}-${index}`,
+            account: {
+              data: {
+                program: account.program ?? 'spl-token-2022',
+                parsed: {
+                  info: {
+                    mint: account.mint,
+                    owner: account.owner,
+                    tokenAmount: { amount: account.amount.toString(), decimals: account.decimals },
+                  },
+                },
+              },
+            },
+          }));
+        return { context: { slot: 0 }, value } as T;
+      }
+
+      if (method === 'getSignatureStatuses') {
+        const [signatures] = params as [string[]];
+        const value = signatures.map((signature) => {
+          const transaction = fixtures.transactions?.[signature];
+          return transaction
+            ? { slot: 1, confirmations: null, err: transaction.err ?? null, confirmationStatus: transaction.confirmationStatus ?? 'finalized' }
+            : null;
+        });
+        return { context: { slot: 1 }, value } as T;
+      }
+
+      if (method === 'getTransaction') {
+        const [signature, options] = params as [string, { commitment?: string }];
+        const transaction = fixtures.transactions?.[signature];
+        const finalized = (transaction?.confirmationStatus ?? 'finalized') === 'finalized';
+        return (transaction && (finalized || options?.commitment !== 'finalized') ? fixtureTransaction(transaction) : null) as T;
+      }
+
+      throw new SolanaRpcError(-32601, `fixture: method ${method} is not supported`);
+    },
+  };
+
+  return provider;
+}
+
+/**
+ * Try providers in order. Transport failures are retried with exponential
+ * backoff, then the next provider is tried; JSON-RPC errors are returned as is.
+ */
+export function createFailoverProvider(
+  providers: SolanaRpcProvider[],
+  options: { retries?: number; retryDelayMs?: number } = {}
+): SolanaRpcProvider {
+  const retries = options.retries ?? config.solana.rpcRetries;
+  const retryDelayMs = options.retryDelayMs ?? config.solana.rpcRetryDelayMs;
+
+  return {
+    name: providers.map((provider) => provider.name).join(' -> '),
+    async request<T>(method: string, params: unknown[]): Promise<T> {
+      const failures: string[] = [];
+
+      for (const [index, provider] of providers.entries()) {
+        let lastError = '';
+
+        for (let attempt = 0; attempt <= retries; attempt++) {
+          if (attempt > 0) {
+            await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+          }
+
+          try {
+            return await provider.request<T>(method, params);
+          } catch (error) {
+            if (!(error instanceof SolanaRpcUnavailableError)) {
+              throw error;
+            }
+            lastError = error.message;
+          }
+        }
+
+        failures.push(lastError);
+        if (index < providers.length - 1) {
+          console.warn(`⚠️ Solana RPC ${provider.name} failed ${retries + 1} time(s), failing over`);
+        }
+      }
+
+      throw new SolanaRpcUnavailableError(`All Solana RPC endpoints failed: ${failures.join('; ')}`);
+    },
+  };
+}
+
+// Helius first (when configured), then SOLANA_RPC_URLS in order
+function createDefaultProvider(): SolanaRpcProvider | null {
+  const providers: SolanaRpcProvider[] = [];
+
+  if (config.solana.heliusApiKey) {
+    providers.push(createHeliusProvider(config.solana.heliusApiKey));
+  }
+
+  // Keys for these endpoints go in SOLANA_RPC_HEADERS rather than the URL where the provider allows it
+  for (const url of config.solana.rpcUrls) {
+    providers.push(createJsonRpcProvider(url, { headers: config.solana.rpcHeaders }));
+  }
+
+  return providers.length > 0 ? createFailoverProvider(providers) : null;
+}
+
+let provider: SolanaRpcProvider | null | undefined;
+
+/**
+ * The configured provider, or null when no endpoint is configured
+ */
+export function getSolanaRpcProvider(): SolanaRpcProvider | null {
+  if (provider === undefined) {
+    provider = config.solana.rpcFixtureFile
+      ? loadFixtureProvider(config.solana.rpcFixtureFile)
+      : createDefaultProvider();
+  }
+  return provider;
+}
+
+// Offline development: answer from a JSON fixture file instead of the network
+function loadFixtureProvider(path: string): SolanaRpcProvider {
+  const fixtures = JSON.parse(readFileSync(path, 'utf8')) as SolanaFixtures;
+  console.log(`🧪 Solana RPC answers from fixtures in ${path}`);
+  return createFixtureProvider(fixtures);
+}
+
+// Swap the provider (tests, offline development); null disables RPC, undefined restores the default
+export function setSolanaRpcProvider(next: SolanaRpcProvider | null | undefined) {
+  provider = next;
+}
+
+/**
+ * All token accounts a wallet owns for one mint (Token and Token-2022)
+ */
+export async function getTokenAccountsByOwner(rpc: SolanaRpcProvider, owner: string, mint: string): Promise<ParsedTokenAccount[]> {
+  const result = await rpc.request<{ value: ParsedTokenAccount[] }>('getTokenAccountsByOwner', [
+    owner,
+    { mint },
+    { encoding: 'jsonParsed', commitment: 'confirmed' },
+  ]);
+
+  if (!Array.isArray(result?.value)) {
+    throw new SolanaRpcUnavailableError('getTokenAccountsByOwner returned an unexpected response');
+  }
+
+  return result.value;
+}
+
+/**
+ * Status of one transaction signature, or null if the cluster has not seen it
+ */
+export async function getSignatureStatus(rpc: SolanaRpcProvider, signature: string): Promise<SignatureStatus | null> {
+  const result = await rpc.request<{ value: Array<SignatureStatus | null> }>('getSignatureStatuses', [
+    [signature],
+    { searchTransactionHistory: true },
+  ]);
+  return result?.value?.[0] ?? null;
+}
+
+/**
+ * A finalized transaction with parsed instructions and token balances, or null
+ */
+export async function getFinalizedTransaction(rpc: SolanaRpcProvider, signature: string): Promise<ParsedTransaction | null> {
+  return rpc.request<ParsedTransaction | null>('getTransaction', [
+    signature,
+    { encoding: 'jsonParsed', commitment: 'finalized', maxSupportedTransactionVersion: 0 },
+  ]);
+}
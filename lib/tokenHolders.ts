@@ -0,0 +1,265 @@
+// Token holder status over time
+// Every balance check goes through recordTokenCheck(), which applies the result
+// to the wallet's WalletUser and User, keeps holders who drop to a lower tier
+// for a grace period, keeps the wallet's TOKEN entitlement on the resulting
+// tier, and stores a TokenBalanceSnapshot. The
+// scheduler re-checks holders whose last check is older than the max staleness.
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+import { verifyTokenHolder, tierRank, type TokenTier } from './helius.js';
+import { getSolanaRpcProvider } from './solanaRpc.js';
+import { syncTokenEntitlement } from './entitlements.js';
+
+export type TokenCheckSource = 'registration' | 'manual' | 'scheduled';
+
+interface HolderState {
+  isTokenHolder: boolean;
+  tokenTier: string | null;
+  tokenHolderGraceUntil: Date | null;
+}
+
+export interface TokenCheckResult {
+  balanceKnown: boolean; // false when the RPC failed; the stored status was kept
+  isTokenHolder: boolean; // after the grace period is applied
+  tokenTier: string | null;
+  balanceTier: TokenTier | null; // tier the balance alone qualifies for
+  meetsThreshold: boolean;
+  tokenBalance: number | null;
+  threshold: number;
+  graceUntil: Date | null;
+  statusChanged: boolean;
+}
+
+function graceMs(): number {
+  return config.solana.holderGraceHours * 60 * 60 * 1000;
+}
+
+function settled(tier: TokenTier | null): HolderState {
+  return { isTokenHolder: tier !== null, tokenTier: tier?.id ?? null, tokenHolderGraceUntil: null };
+}
+
+/**
+ * Holder state after a check. Upgrades are immediate; a holder whose balance
+ * falls to a lower tier (or below every tier) keeps the current tier until
+ * the grace period ends.
+ */
+export function nextHolderState(
+  current: Pick<HolderState, 'tokenTier' | 'tokenHolderGraceUntil'>,
+  balanceTier: TokenTier | null,
+  now = new Date()
+): HolderState {
+  if (tierRank(balanceTier?.id) >= tierRank(current.tokenTier)) {
+    return settled(balanceTier);
+  }
+
+  const graceUntil = current.tokenHolderGraceUntil ?? new Date(now.getTime() + graceMs());
+
+  if (graceUntil <= now) {
+    return settled(balanceTier);
+  }
+
+  return { isTokenHolder: true, tokenTier: current.tokenTier, tokenHolderGraceUntil: graceUntil };
+}
+
+/**
+ * Check a wallet's balance and apply it to its WalletUser and User. If the
+ * balance cannot be read nothing is written, so the previous status stands
+ * and the scheduler tries again on its next run.
+ */
+export async function recordTokenCheck(walletAddress: string, source: TokenCheckSource): Promise<TokenCheckResult> {
+  const verification = await verifyTokenHolder(walletAddress);
+  const now = new Date();
+
+  const [walletUser, user] = await Promise.all([
+    prisma.walletUser.findUnique({ where: { walletAddress } }),
+    prisma.user.findUnique({ where: { walletAddress } }),
+  ]);
+
+  if (verification.status === 'unknown') {
+    const stored = walletUser ?? user;
+    return {
+      balanceKnown: false,
+      isTokenHolder: stored?.isTokenHolder ?? false,
+      tokenTier: stored?.tokenTier ?? null,
+      balanceTier: null,
+      meetsThreshold: false,
+      tokenBalance: stored?.tokenBalance ?? null,
+      threshold: verification.threshold,
+      graceUntil: stored?.tokenHolderGraceUntil ?? null,
+      statusChanged: false,
+    };
+  }
+
+  const checked = { tokenBalance: verification.tokenBalance, lastTokenCheck: now };
+  let state = settled(verification.tier);
+  let statusChanged = false;
+
+  if (walletUser) {
+    state = nextHolderState(walletUser, verification.tier, now);
+    statusChanged ||= state.tokenTier !== walletUser.tokenTier;
+    await prisma.walletUser.update({
+      where: { id: walletUser.id },
+      data: { ...checked, ...state },
+    });
+  }
+
+  // The account this wallet is linked to gets the same treatment (applies to its API keys)
+  if (user) {
+    const userState = nextHolderState(user, verification.tier, now);
+    statusChanged ||= userState.tokenTier !== user.tokenTier;
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { ...checked, ...userState },
+    });
+    if (!walletUser) {
+      state = userState;
+    }
+  }
+
+  await syncTokenEntitlement(walletAddress, state.tokenTier, now);
+
+  await prisma.tokenBalanceSnapshot.create({
+    data: {
+      walletAddress,
+      balance: verification.tokenBalance,
+      threshold: verification.threshold,
+      isTokenHolder: state.isTokenHolder,
+      tokenTier: state.tokenTier,
+      statusChanged,
+      source,
+      checkedAt: now,
+    },
+  });
+
+  if (statusChanged) {
+    console.log(`🔁 Wallet ${walletAddress.slice(0, 8)}... token tier is now ${state.tokenTier ?? 'none'} (${source} check)`);
+  } else if (state.tokenHolderGraceUntil) {
+    console.log(`⏳ Wallet ${walletAddress.slice(0, 8)}... is below its tier, grace period until ${state.tokenHolderGraceUntil.toISOString()}`);
+  }
+
+  return {
+    balanceKnown: true,
+    isTokenHolder: state.isTokenHolder,
+    tokenTier: state.tokenTier,
+    balanceTier: verification.tier,
+    meetsThreshold: verification.isTokenHolder,
+    tokenBalance: verification.tokenBalance,
+    threshold: verification.threshold,
+    graceUntil: state.tokenHolderGraceUntil,
+    statusChanged,
+  };
+}
+
+/**
+ * Balance history of a wallet, newest first
+ */
+export async function getTokenBalanceHistory(walletAddress: string, options: { changesOnly?: boolean; limit?: number } = {}) {
+  return prisma.tokenBalanceSnapshot.findMany({
+    where: {
+      walletAddress,
+      ...(options.changesOnly && { statusChanged: true }),
+    },
+    orderBy: { checkedAt: 'desc' },
+    take: options.limit ?? 100,
+  });
+}
+
+interface TokenRecheckOptions {
+  intervalMs?: number;
+  maxStalenessMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Periodically re-verifies holders (and wallets in their grace period) whose
+ * last check is older than the max staleness
+ */
+export class TokenRecheckScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly intervalMs: number;
+  private readonly maxStalenessMs: number;
+  private readonly batchSize: number;
+
+  constructor(options: TokenRecheckOptions = {}) {
+    this.intervalMs = options.intervalMs ?? config.solana.recheckIntervalMinutes * 60 * 1000;
+    this.maxStalenessMs = options.maxStalenessMs ?? config.solana.holderMaxStalenessHours * 60 * 60 * 1000;
+    this.batchSize = options.batchSize ?? config.solana.recheckBatchSize;
+  }
+
+  start() {
+    // Without an RPC endpoint no balance can be read
+    if (!getSolanaRpcProvider()) {
+      console.warn('⚠️ Token holder re-checks are disabled (no Solana RPC endpoint configured)');
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.runOnce()
+      .catch((error) => console.error('Token re-check error:', error))
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Re-check one batch of stale holders. Returns the number of wallets checked.
+   */
+  async runOnce(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.maxStalenessMs);
+    const due = {
+      OR: [{ isTokenHolder: true }, { tokenHolderGraceUntil: { not: null } }],
+      AND: [{ OR: [{ lastTokenCheck: null }, { lastTokenCheck: { lt: cutoff } }] }],
+    };
+
+    const [walletUsers, users] = await Promise.all([
+      prisma.walletUser.findMany({
+        where: due,
+        orderBy: { lastTokenCheck: 'asc' },
+        take: this.batchSize,
+        select: { walletAddress: true },
+      }),
+      prisma.user.findMany({
+        where: { ...due, walletAddress: { not: null } },
+        orderBy: { lastTokenCheck: 'asc' },
+        take: this.batchSize,
+        select: { walletAddress: true },
+      }),
+    ]);
+
+    const addresses = [...new Set([...walletUsers, ...users].map((row) => row.walletAddress!))].slice(0, this.batchSize);
+
+    for (const walletAddress of addresses) {
+      try {
+        await recordTokenCheck(walletAddress, 'scheduled');
+      } catch (error) {
+        console.error(`Token re-check failed for ${walletAddress.slice(0, 8)}...:`, error);
+      }
+    }
+
+    if (addresses.length > 0) {
+      console.log(`🔍 Re-checked ${addresses.length} token holder wallet(s)`);
+    }
+
+    return addresses.length;
+  }
+}
+
+export const tokenRecheckScheduler = new TokenRecheckScheduler();
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { SCOPED_ENDPOINTS, isValidIpRule } from './apiKeyScopes.js';
+import { config } from './config.js';
+import { MAX_USAGE_RANGE_DAYS } from './apiUsage.js';
+import { spendPeriod } from './llmSpend.js';
 
 // Schema for GitHub repository URL validation
 export const repoUrlSchema = z.object({
@@ -23,36 +27,143 @@ export const walletVerificationSchema = z.object({
   transactionSignature: z.string().optional(),
 });
 
+// Schema for verifying a USDC payment
+export const paymentVerifySchema = z.object({
+  reference: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Invalid payment reference'),
+  signature: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{64,88}$/, 'Invalid transaction signature'),
+});
+
+// Schema for API key scopes; omitted lists leave the key unrestricted
+export const apiKeyScopesSchema = z.object({
+  endpoints: z.array(z.enum(SCOPED_ENDPOINTS)).max(SCOPED_ENDPOINTS.length).optional(),
+  repositories: z.array(
+    z.string().regex(/^[A-Za-z0-9-]+(\/[A-Za-z0-9._-]+)?$/, { message: 'Repositories must be "owner" or "owner/repo"' })
+  ).max(100).optional(),
+  allowFileContents: z.boolean().optional(),
+  ipAllowList: z.array(
+    z.string().refine(isValidIpRule, { message: 'IP allow-list entries must be IP addresses or CIDR ranges' })
+  ).max(50).optional(),
+});
+
 // Schema for API key creation
 export const apiKeyCreateSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   type: z.enum(['RESEARCH', 'CHATBOT']),
   expiresInDays: z.number().min(1).max(365).optional(),
+  scopes: apiKeyScopesSchema.optional(),
+  monthlySpendCapUsd: z.number().positive().max(100_000).nullable().optional(),
+});
+
+// Schema for a key's monthly LLM spend cap; null removes the cap
+export const apiKeySpendCapSchema = z.object({
+  monthlySpendCapUsd: z.number().positive().max(100_000).nullable(),
+});
+
+// Schema for API key rotation; grace period defaults to API_KEY_ROTATION_GRACE_HOURS
+export const apiKeyRotateSchema = z.object({
+  gracePeriodHours: z.number().min(0).max(24 * 30).optional(),
 });
 
 // Schema for repository analysis
 export const repoAnalysisSchema = z.object({
   repoUrl: z.string().url(),
-  branch: z.string().optional().default('main'),
+  branch: z.string().min(1).optional(), // defaults to the repository's default branch
   forceRefresh: z.boolean().optional().default(false),
+  async: z.boolean().optional().default(false), // queue a job instead of waiting
+  webhookUrl: z.string().url().refine(
+    (url) => url.startsWith('https://') || !config.isProduction,
+    { message: 'Webhook URL must use https' }
+  ).optional(),
 });
 
-// Validate environment variables
-export function validateEnv() {
-  const requiredEnvVars = [
-    'DATABASE_URL',
-    'NEXT_PUBLIC_PRIVY_APP_ID',
-    'REDIS_URL',
-  ];
-
-  const missing = requiredEnvVars.filter((varName) => !process.env[varName]);
-
-  if (missing.length > 0) {
-    throw new Error(
-      `Missing required environment variables: ${missing.join(', ')}`
-    );
-  }
-}
+// Schema for /api/v1/analyze (body, or URL params and query); an empty branch means the default branch
+export const analyzeRequestSchema = z.object({
+  owner: z.string({ message: 'Missing required fields: owner and repo' }).min(1, 'Missing required fields: owner and repo').max(100),
+  repo: z.string({ message: 'Missing required fields: owner and repo' }).min(1, 'Missing required fields: owner and repo').max(100),
+  branch: z.string().optional().transform((branch) => branch || undefined),
+  forceRefresh: z.boolean().optional().default(false),
+});
+
+// Schema for admin score overrides
+const overrideScore = z.number().min(0).max(100).optional();
+export const scoreOverrideSchema = z.object({
+  repoOwner: z.string().min(1),
+  repoName: z.string().min(1),
+  codeQuality: overrideScore,
+  rugPotential: overrideScore,
+  longTerm: overrideScore,
+  maintainability: overrideScore,
+  scalability: overrideScore,
+  reason: z.string().min(10).max(1000),
+  expiresInDays: z.number().min(1).max(365).optional(),
+}).refine(
+  (data) => [data.codeQuality, data.rugPotential, data.longTerm, data.maintainability, data.scalability]
+    .some((value) => value !== undefined),
+  { message: 'At least one score must be overridden' }
+);
+
+// Schema for admin entitlement grants; omitted overrides keep the plan's limits
+const quotaOverride = z.number().int().min(0).optional();
+const rateLimitOverride = z.number().int().positive().optional();
+
+export const entitlementGrantSchema = z.object({
+  userId: z.string().min(1).optional(),
+  walletAddress: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Invalid wallet address').optional(),
+  plan: z.string().min(1),
+  startsAt: z.coerce.date().optional(),
+  durationDays: z.number().min(1).max(3650).optional(), // omitted = open-ended
+  researchLimit: quotaOverride,
+  chatLimit: quotaOverride,
+  apiCallLimit: quotaOverride,
+  researchRateLimit: rateLimitOverride,
+  chatbotRateLimit: rateLimitOverride,
+  note: z.string().max(500).optional(),
+}).refine(
+  (data) => Boolean(data.userId) !== Boolean(data.walletAddress),
+  { message: 'Provide either userId or walletAddress' }
+);
+
+// Schema for usage analytics queries (query string). The range defaults to
+// the last 30 days, or the last 24 hours for hourly buckets.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  granularity: z.enum(['day', 'hour']).default('day'),
+  groupBy: z.string().optional().transform((value, ctx) => {
+    const dimensions = [...new Set((value ?? '').split(',').map((item) => item.trim()).filter(Boolean))];
+    const invalid = dimensions.find((item) => !['endpoint', 'key', 'status'].includes(item));
+    if (invalid) {
+      ctx.addIssue({ code: 'custom', message: `Cannot group by ${invalid}; use endpoint, key or status` });
+      return z.NEVER;
+    }
+    return dimensions as Array<'endpoint' | 'key' | 'status'>;
+  }),
+  keyId: z.string().min(1).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+}).transform((query) => {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - (query.granularity === 'hour' ? DAY_MS : 30 * DAY_MS));
+  return { ...query, from, to };
+}).refine((query) => query.from < query.to, {
+  message: 'from must be before to',
+}).refine((query) => query.to.getTime() - query.from.getTime() <= MAX_USAGE_RANGE_DAYS[query.granularity] * DAY_MS, {
+  message: 'Date range is too long: at most 366 days by day or 31 days by hour',
+});
+
+// Schema for spend report queries (query string); defaults to the current month (UTC)
+export const spendQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).transform((query) => ({
+  from: query.from ?? spendPeriod().start,
+  to: query.to ?? new Date(),
+})).refine((query) => query.from < query.to, {
+  message: 'from must be before to',
+}).refine((query) => query.to.getTime() - query.from.getTime() <= 366 * DAY_MS, {
+  message: 'Date range is too long: at most 366 days',
+});
 
 // Sanitize file path to prevent directory traversal
 export function sanitizeFilePath(path: string): string {
@@ -69,6 +180,8 @@ export const rateLimitKeys = {
   chat: (userId: string, sessionId: string) => `rate:chat:${userId}:${sessionId}`,
   api: (keyId: string) => `rate:api:${keyId}`,
   user: (userId: string) => `rate:user:${userId}`,
+  wallet: (walletAddress: string) => `rate:wallet:${walletAddress}`,
+  ip: (ip: string) => `rate:ip:${ip}`,
 };
 
 // Error response helper
@@ -85,9 +198,16 @@ export default {
   repoUrlSchema,
   chatMessageSchema,
   walletVerificationSchema,
+  apiKeyScopesSchema,
   apiKeyCreateSchema,
+  apiKeyRotateSchema,
+  apiKeySpendCapSchema,
+  paymentVerifySchema,
   repoAnalysisSchema,
-  validateEnv,
+  scoreOverrideSchema,
+  entitlementGrantSchema,
+  usageQuerySchema,
+  spendQuerySchema,
   sanitizeFilePath,
   isValidSolanaAddress,
   rateLimitKeys,
@@ -0,0 +1,217 @@
+// Solana wallet sign-in challenges
+// The server issues a single-use, expiring nonce message bound to the wallet
+// address and our domain; the wallet signs it and the signature is checked
+// against exactly that stored message.
+import crypto from 'crypto';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import type { User, WalletUser } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+
+export interface WalletSignatureParams {
+  walletAddress: string;
+  message: string;
+  signature: string;
+}
+
+export type WalletChallengeResult =
+  | { valid: true; bypassed: boolean }
+  | { valid: false; error: string };
+
+/**
+ * Domain the challenge is bound to (WALLET_AUTH_DOMAIN, else the FRONTEND_URL host)
+ */
+export function getWalletAuthDomain(): string {
+  return config.wallet.authDomain;
+}
+
+function getChallengeTtlMs(): number {
+  return config.wallet.challengeTtlMinutes * 60 * 1000;
+}
+
+/**
+ * Skipping signature checks requires WALLET_SIGNATURE_DEV_BYPASS=true; the config refuses it in production
+ */
+export function isSignatureBypassEnabled(): boolean {
+  return config.wallet.signatureDevBypass && !config.isProduction;
+}
+
+export function buildChallengeMessage(params: {
+  domain: string;
+  walletAddress: string;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}): string {
+  return [
+    `${params.domain} wants you to sign in with your Solana account:`,
+    params.walletAddress,
+    '',
+    'Sign this message to prove you own this wallet. It does not cost anything or send a transaction.',
+    '',
+    `URI: https://${params.domain}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${params.issuedAt.toISOString()}`,
+    `Expiration Time: ${params.expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Issue a new challenge for a wallet address
+ */
+export async function createWalletChallenge(walletAddress: string) {
+  const domain = getWalletAuthDomain();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + getChallengeTtlMs());
+  const message = buildChallengeMessage({ domain, walletAddress, nonce, issuedAt, expiresAt });
+
+  // Drop stale challenges for this address so the table does not grow unbounded
+  await prisma.walletChallenge.deleteMany({
+    where: {
+      walletAddress,
+      OR: [{ expiresAt: { lte: issuedAt } }, { usedAt: { not: null } }],
+    },
+  });
+
+  await prisma.walletChallenge.create({
+    data: { walletAddress, nonce, domain, message, expiresAt },
+  });
+
+  return { message, nonce, domain, expiresAt };
+}
+
+/**
+ * Check an ed25519 signature over a message. Malformed input counts as invalid.
+ */
+export function verifyWalletSignature({ walletAddress, message, signature }: WalletSignatureParams): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      bs58.decode(signature),
+      bs58.decode(walletAddress)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a signed challenge and mark it used. Each challenge can be redeemed once.
+ */
+export async function redeemWalletChallenge(params: WalletSignatureParams): Promise<WalletChallengeResult> {
+  const result = await checkChallenge(params);
+
+  if (!result.valid && isSignatureBypassEnabled()) {
+    console.warn(`⚠️ WALLET_SIGNATURE_DEV_BYPASS: accepting wallet ${params.walletAddress} despite: ${result.error}`);
+    return { valid: true, bypassed: true };
+  }
+
+  return result;
+}
+
+async function checkChallenge({ walletAddress, message, signature }: WalletSignatureParams): Promise<WalletChallengeResult> {
+  const nonce = message.match(/^Nonce: ([0-9a-f]+)$/m)?.[1];
+  const challenge = nonce
+    ? await prisma.walletChallenge.findUnique({ where: { nonce } })
+    : null;
+
+  if (!challenge || challenge.walletAddress !== walletAddress || challenge.message !== message) {
+    return { valid: false, error: 'Unknown challenge. Request a new one from /api/v1/wallet/challenge' };
+  }
+
+  if (challenge.domain !== getWalletAuthDomain()) {
+    return { valid: false, error: 'Challenge was issued for a different domain' };
+  }
+
+  if (challenge.usedAt) {
+    return { valid: false, error: 'Challenge has already been used' };
+  }
+
+  if (challenge.expiresAt <= new Date()) {
+    return { valid: false, error: 'Challenge has expired. Request a new one' };
+  }
+
+  if (!verifyWalletSignature({ walletAddress, message, signature })) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  // Compare-and-set so concurrent requests cannot both redeem the same nonce
+  const { count } = await prisma.walletChallenge.updateMany({
+    where: { id: challenge.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count !== 1) {
+    return { valid: false, error: 'Challenge has already been used' };
+  }
+
+  return { valid: true, bypassed: false };
+}
+
+type WalletCarryOverField =
+  | 'researchUsed' | 'researchLimit' | 'chatUsed' | 'chatLimit'
+  | 'isTokenHolder' | 'tokenTier' | 'tokenBalance' | 'lastTokenCheck' | 'tokenHolderGraceUntil';
+
+/**
+ * Fields to copy from a wallet's WalletUser record onto its User: usage
+ * counters (keeping whichever side has counted more) and token holder status
+ * (when the wallet's check is newer).
+ */
+export function walletUserCarryOver(
+  user: Pick<User, 'researchUsed' | 'chatUsed' | 'lastTokenCheck'> | null,
+  walletUser: WalletUser | null
+): Partial<Pick<User, WalletCarryOverField>> {
+  if (!walletUser) {
+    return {};
+  }
+
+  const tokenStatusIsNewer = !user?.lastTokenCheck
+    || (walletUser.lastTokenCheck !== null && walletUser.lastTokenCheck > user.lastTokenCheck);
+
+  return {
+    researchUsed: Math.max(user?.researchUsed ?? 0, walletUser.researchUsed),
+    researchLimit: walletUser.researchLimit,
+    chatUsed: Math.max(user?.chatUsed ?? 0, walletUser.chatUsed),
+    chatLimit: walletUser.chatLimit,
+    ...(tokenStatusIsNewer && {
+      isTokenHolder: walletUser.isTokenHolder,
+      tokenTier: walletUser.tokenTier,
+      tokenBalance: walletUser.tokenBalance,
+      lastTokenCheck: walletUser.lastTokenCheck,
+      tokenHolderGraceUntil: walletUser.tokenHolderGraceUntil,
+    }),
+  };
+}
+
+/**
+ * Find or create the User for a Solana sign-in, carrying over the wallet's
+ * WalletUser counters and token holder status
+ */
+export async function upsertSolanaUser(walletAddress: string) {
+  const [user, walletUser] = await Promise.all([
+    prisma.user.findUnique({ where: { walletAddress } }),
+    prisma.walletUser.findUnique({ where: { walletAddress } }),
+  ]);
+
+  if (!user) {
+    return prisma.user.create({
+      data: {
+        walletAddress,
+        name: `${walletAddress.slice(0, 4)}…${walletAddress.slice(-4)}`,
+        authMethod: 'SOLANA',
+        lastLogin: new Date(),
+        ...walletUserCarryOver(null, walletUser),
+      },
+    });
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lastLogin: new Date(),
+      ...walletUserCarryOver(user, walletUser),
+    },
+  });
+}
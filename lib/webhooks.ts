@@ -0,0 +1,187 @@
+// Outgoing webhook signing
+// Job webhooks are signed with the owning account's own secret, which the
+// owner reads from GET /api/webhooks/secret, so one customer cannot forge
+// another's webhooks. Operator notifications (ENTITLEMENT_WEBHOOK_URL) are
+// signed with WEBHOOK_SECRET, which is never shared with customers.
+// Customer webhook URLs must resolve to public addresses only, checked when
+// the job is queued and again right before each delivery. Deliveries connect
+// to the addresses that were checked, so the host cannot be rebound in between.
+import crypto from 'crypto';
+import net from 'net';
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import { Agent } from 'undici';
+import { prisma } from './prisma.js';
+import { config } from './config.js';
+
+/**
+ * Sign a webhook body. Receivers recompute
+ * HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it to X-UnRepo-Signature.
+ */
+export function signWebhookPayload(body: string, timestamp: string, secret: string = config.webhooks.secret): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function newWebhookSecret(): string {
+  return 'whsec_' + crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * An account's webhook signing secret, created on first use
+ */
+export async function getWebhookSecret(userId: string): Promise<string> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { webhookSecret: true },
+  });
+
+  if (user.webhookSecret) {
+    return user.webhookSecret;
+  }
+
+  // Compare-and-set so two first uses agree on one secret
+  await prisma.user.updateMany({
+    where: { id: userId, webhookSecret: null },
+    data: { webhookSecret: newWebhookSecret() },
+  });
+
+  const created = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { webhookSecret: true },
+  });
+  return created.webhookSecret!;
+}
+
+/**
+ * Replace an account's webhook secret; webhooks sent afterwards use the new one
+ */
+export async function rotateWebhookSecret(userId: string): Promise<string> {
+  const secret = newWebhookSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { webhookSecret: secret },
+  });
+  return secret;
+}
+
+/**
+ * Secret for a job's webhook: the requesting account's, or the account the
+ * requesting wallet is linked to (wallet callers are signed in)
+ */
+export async function webhookSecretForJob(job: { userId: string | null; walletAddress: string | null }): Promise<string | null> {
+  if (job.userId) {
+    return getWebhookSecret(job.userId);
+  }
+
+  if (job.walletAddress) {
+    const user = await prisma.user.findUnique({
+      where: { walletAddress: job.walletAddress },
+      select: { id: true },
+    });
+    return user ? getWebhookSecret(user.id) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Thrown for webhook URLs that do not resolve to a public address; routes answer with 400
+ */
+export class WebhookUrlError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const NON_PUBLIC_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const nonPublic = new net.BlockList();
+for (const [address, prefix, family] of NON_PUBLIC_RANGES) {
+  nonPublic.addSubnet(address, prefix, family);
+}
+
+// Kept apart: a BlockList also matches plain IPv4 addresses against this subnet
+const ipv4Mapped = new net.BlockList();
+ipv4Mapped.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is checked as the IPv4 address it maps to
+  const mapped = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : null;
+  if (mapped && net.isIPv4(mapped)) {
+    return !nonPublic.check(mapped, 'ipv4');
+  }
+
+  const family = net.isIP(address);
+  if (family === 6 && ipv4Mapped.check(address, 'ipv6')) {
+    return false; // IPv4-mapped, when not written in dotted form
+  }
+  return family !== 0 && !nonPublic.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve a webhook URL's host and reject it unless every address it
+ * resolves to is public. Guards against requests to internal services.
+ * Returns the checked addresses for createPinnedDispatcher.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<LookupAddress[]> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    throw new WebhookUrlError('Invalid webhook URL');
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new WebhookUrlError(`Webhook host ${host} could not be resolved`);
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new WebhookUrlError('Webhook URL must resolve to a public address');
+  }
+
+  return addresses;
+}
+
+/**
+ * A fetch dispatcher that connects only to the given addresses instead of
+ * resolving the host again. The URL keeps its hostname, so the Host header
+ * and TLS server name are unchanged. Close it when the request is done.
+ */
+export function createPinnedDispatcher(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
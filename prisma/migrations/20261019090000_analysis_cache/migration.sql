@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "RepositoryAnalysis_repoOwner_repoName_repoBranch_key";
+
+-- AlterTable
+ALTER TABLE "RepositoryAnalysis" ADD COLUMN     "analysisType" TEXT NOT NULL DEFAULT 'research',
+ADD COLUMN     "report" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositoryAnalysis_repoOwner_repoName_repoBranch_analysisType_key" ON "RepositoryAnalysis"("repoOwner", "repoName", "repoBranch", "analysisType");
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "isAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ScoreOverride" (
+    "id" TEXT NOT NULL,
+    "repoOwner" TEXT NOT NULL,
+    "repoName" TEXT NOT NULL,
+    "codeQuality" DOUBLE PRECISION,
+    "rugPotential" DOUBLE PRECISION,
+    "longTerm" DOUBLE PRECISION,
+    "maintainability" DOUBLE PRECISION,
+    "scalability" DOUBLE PRECISION,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "revokeReason" TEXT,
+
+    CONSTRAINT "ScoreOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScoreOverride_repoOwner_repoName_idx" ON "ScoreOverride"("repoOwner", "repoName");
+
+-- CreateIndex
+CREATE INDEX "ScoreOverride_createdById_idx" ON "ScoreOverride"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "ScoreOverride" ADD CONSTRAINT "ScoreOverride_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreOverride" ADD CONSTRAINT "ScoreOverride_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
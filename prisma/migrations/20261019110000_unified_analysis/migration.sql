@@ -0,0 +1,14 @@
+-- Reports from the retired /analyze format cannot be served by the shared pipeline
+DELETE FROM "RepositoryAnalysis" WHERE "analysisType" <> 'research';
+
+-- Research reports cached before the shared pipeline use the old payload shape
+UPDATE "RepositoryAnalysis" SET "expiresAt" = CURRENT_TIMESTAMP;
+
+-- DropIndex
+DROP INDEX "RepositoryAnalysis_repoOwner_repoName_repoBranch_analysisType_key";
+
+-- AlterTable
+ALTER TABLE "RepositoryAnalysis" DROP COLUMN "analysisType";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositoryAnalysis_repoOwner_repoName_repoBranch_key" ON "RepositoryAnalysis"("repoOwner", "repoName", "repoBranch");
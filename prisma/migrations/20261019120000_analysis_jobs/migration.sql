@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "AnalysisJob" (
+    "id" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "repoOwner" TEXT NOT NULL,
+    "repoName" TEXT NOT NULL,
+    "repoBranch" TEXT,
+    "forceRefresh" BOOLEAN NOT NULL DEFAULT false,
+    "userId" TEXT,
+    "apiKeyId" TEXT,
+    "walletAddress" TEXT,
+    "result" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "webhookUrl" TEXT,
+    "webhookStatus" TEXT,
+    "webhookAttempts" INTEGER NOT NULL DEFAULT 0,
+    "webhookDeliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AnalysisJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_status_createdAt_idx" ON "AnalysisJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_userId_idx" ON "AnalysisJob"("userId");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_walletAddress_idx" ON "AnalysisJob"("walletAddress");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ALTER COLUMN "rateLimit" DROP NOT NULL,
+ALTER COLUMN "rateLimit" DROP DEFAULT;
+
+-- Keys still on the old default fall back to their account's tier limit
+UPDATE "ApiKey" SET "rateLimit" = NULL WHERE "rateLimit" = 100;
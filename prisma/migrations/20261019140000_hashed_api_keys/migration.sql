@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "keyHash" TEXT,
+ADD COLUMN     "keyPrefix" TEXT,
+ALTER COLUMN "key" DROP NOT NULL;
+
+-- Backfill lookup prefixes for existing keys (type prefix + 12 characters).
+-- Plaintext keys stay in "key" until they are hashed, either on first use or
+-- by running `npm run keys:hash`.
+UPDATE "ApiKey" SET "keyPrefix" = CASE
+    WHEN "key" LIKE 'unrepo_research_%' THEN substring("key" from 1 for 28)
+    ELSE substring("key" from 1 for 27)
+END;
+
+ALTER TABLE "ApiKey" ALTER COLUMN "keyPrefix" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyPrefix_key" ON "ApiKey"("keyPrefix");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_keyPrefix_idx" ON "ApiKey"("keyPrefix");
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "graceExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "rotatedToId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ApiKeyRotation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "oldKeyId" TEXT NOT NULL,
+    "newKeyId" TEXT NOT NULL,
+    "oldKeyPrefix" TEXT NOT NULL,
+    "newKeyPrefix" TEXT NOT NULL,
+    "graceExpiresAt" TIMESTAMP(3) NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApiKeyRotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_rotatedToId_key" ON "ApiKey"("rotatedToId");
+
+-- CreateIndex
+CREATE INDEX "ApiKeyRotation_userId_idx" ON "ApiKeyRotation"("userId");
+
+-- CreateIndex
+CREATE INDEX "ApiKeyRotation_oldKeyId_idx" ON "ApiKeyRotation"("oldKeyId");
+
+-- CreateIndex
+CREATE INDEX "ApiKeyRotation_newKeyId_idx" ON "ApiKeyRotation"("newKeyId");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_rotatedToId_fkey" FOREIGN KEY ("rotatedToId") REFERENCES "ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiKeyRotation" ADD CONSTRAINT "ApiKeyRotation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "allowFileContents" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "allowedEndpoints" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "allowedIps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "allowedRepositories" TEXT[] DEFAULT ARRAY[]::TEXT[];
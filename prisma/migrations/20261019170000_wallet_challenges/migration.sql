@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "WalletChallenge" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletChallenge_nonce_key" ON "WalletChallenge"("nonce");
+
+-- CreateIndex
+CREATE INDEX "WalletChallenge_walletAddress_idx" ON "WalletChallenge"("walletAddress");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "chatLimit" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "chatUsed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "researchLimit" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "researchUsed" INTEGER NOT NULL DEFAULT 0;
+
+-- Carry wallet usage counters over to users already linked to a wallet
+UPDATE "User" u SET
+    "researchUsed" = GREATEST(u."researchUsed", w."researchUsed"),
+    "researchLimit" = w."researchLimit",
+    "chatUsed" = GREATEST(u."chatUsed", w."chatUsed"),
+    "chatLimit" = w."chatLimit"
+FROM "WalletUser" w
+WHERE u."walletAddress" = w."walletAddress";
+
+-- Create a Solana user for every registered wallet without one
+INSERT INTO "User" (
+    "id", "walletAddress", "name", "authMethod",
+    "isTokenHolder", "tokenBalance", "lastTokenCheck",
+    "researchUsed", "researchLimit", "chatUsed", "chatLimit",
+    "createdAt", "updatedAt"
+)
+SELECT
+    gen_random_uuid()::text, w."walletAddress",
+    left(w."walletAddress", 4) || '…' || right(w."walletAddress", 4), 'SOLANA',
+    w."isTokenHolder", w."tokenBalance", w."lastTokenCheck",
+    w."researchUsed", w."researchLimit", w."chatUsed", w."chatLimit",
+    w."createdAt", CURRENT_TIMESTAMP
+FROM "WalletUser" w
+WHERE NOT EXISTS (SELECT 1 FROM "User" u WHERE u."walletAddress" = w."walletAddress");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "ip" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "previousSessionToken" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "userAgent" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Session_previousSessionToken_key" ON "Session"("previousSessionToken");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "tokenHolderGraceUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "WalletUser" ADD COLUMN     "tokenHolderGraceUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TokenBalanceSnapshot" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "isTokenHolder" BOOLEAN NOT NULL,
+    "statusChanged" BOOLEAN NOT NULL DEFAULT false,
+    "source" TEXT NOT NULL,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenBalanceSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenBalanceSnapshot_walletAddress_checkedAt_idx" ON "TokenBalanceSnapshot"("walletAddress", "checkedAt");
+
+-- CreateIndex
+CREATE INDEX "TokenBalanceSnapshot_statusChanged_idx" ON "TokenBalanceSnapshot"("statusChanged");
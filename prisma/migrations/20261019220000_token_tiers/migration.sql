@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "tokenTier" TEXT;
+
+-- AlterTable
+ALTER TABLE "WalletUser" ADD COLUMN     "tokenTier" TEXT;
+
+-- AlterTable
+ALTER TABLE "TokenBalanceSnapshot" ADD COLUMN     "tokenTier" TEXT;
+
+-- Existing holders were checked against the old single threshold, which is the default top tier
+UPDATE "User" SET "tokenTier" = 'gold' WHERE "isTokenHolder" = true;
+UPDATE "WalletUser" SET "tokenTier" = 'gold' WHERE "isTokenHolder" = true;
+UPDATE "TokenBalanceSnapshot" SET "tokenTier" = 'gold' WHERE "isTokenHolder" = true;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "walletAddress" DROP NOT NULL,
+ALTER COLUMN "transactionHash" DROP NOT NULL,
+ADD COLUMN     "amountRaw" TEXT,
+ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "mint" TEXT,
+ADD COLUMN     "recipient" TEXT,
+ADD COLUMN     "reference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_reference_key" ON "Payment"("reference");
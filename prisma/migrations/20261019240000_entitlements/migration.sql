@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "EntitlementSource" AS ENUM ('PAYMENT', 'TOKEN', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "Entitlement" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "walletAddress" TEXT,
+    "plan" TEXT NOT NULL,
+    "source" "EntitlementSource" NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endsAt" TIMESTAMP(3),
+    "researchLimit" INTEGER,
+    "chatLimit" INTEGER,
+    "apiCallLimit" INTEGER,
+    "researchRateLimit" INTEGER,
+    "chatbotRateLimit" INTEGER,
+    "paymentId" TEXT,
+    "grantedById" TEXT,
+    "note" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Entitlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Entitlement_paymentId_key" ON "Entitlement"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Entitlement_userId_idx" ON "Entitlement"("userId");
+
+-- CreateIndex
+CREATE INDEX "Entitlement_walletAddress_idx" ON "Entitlement"("walletAddress");
+
+-- CreateIndex
+CREATE INDEX "Entitlement_endsAt_expiredAt_idx" ON "Entitlement"("endsAt", "expiredAt");
+
+-- AddForeignKey
+ALTER TABLE "Entitlement" ADD CONSTRAINT "Entitlement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Accounts that paid before entitlements keep premium with no end date
+INSERT INTO "Entitlement" ("id", "userId", "plan", "source", "startsAt", "paymentId", "note", "updatedAt")
+SELECT gen_random_uuid()::text, u."id", 'premium', 'PAYMENT', u."createdAt",
+       (SELECT p."id" FROM "Payment" p WHERE p."userId" = u."id" AND p."status" = 'VERIFIED' ORDER BY p."verifiedAt" DESC NULLS LAST LIMIT 1),
+       'Paid before entitlements', CURRENT_TIMESTAMP
+FROM "User" u
+WHERE u."paymentVerified" = true;
+
+-- Current token holders get their tier, kept in sync by later balance checks
+INSERT INTO "Entitlement" ("id", "walletAddress", "plan", "source", "updatedAt")
+SELECT gen_random_uuid()::text, w."walletAddress", w."tokenTier", 'TOKEN', CURRENT_TIMESTAMP
+FROM "WalletUser" w
+WHERE w."tokenTier" IS NOT NULL;
+
+INSERT INTO "Entitlement" ("id", "walletAddress", "plan", "source", "updatedAt")
+SELECT gen_random_uuid()::text, u."walletAddress", u."tokenTier", 'TOKEN', CURRENT_TIMESTAMP
+FROM "User" u
+WHERE u."tokenTier" IS NOT NULL
+  AND u."walletAddress" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "WalletUser" w WHERE w."walletAddress" = u."walletAddress" AND w."tokenTier" IS NOT NULL);
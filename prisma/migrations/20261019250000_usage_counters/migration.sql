@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "UsagePrincipalType" AS ENUM ('API_KEY', 'WALLET', 'USER');
+
+-- CreateTable
+CREATE TABLE "UsageCounter" (
+    "id" TEXT NOT NULL,
+    "principalType" "UsagePrincipalType" NOT NULL,
+    "principalId" TEXT NOT NULL,
+    "meter" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "used" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageCounter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageCounter_principalType_principalId_meter_periodStart_key" ON "UsageCounter"("principalType", "principalId", "meter", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "UsageCounter_periodStart_idx" ON "UsageCounter"("periodStart");
+
+-- Lifetime counters (QUOTA_RESET_PERIOD=none) start from the old per-key and per-wallet counts.
+-- Monthly counters start at zero.
+INSERT INTO "UsageCounter" ("id", "principalType", "principalId", "meter", "periodStart", "used", "updatedAt")
+SELECT gen_random_uuid()::text, 'API_KEY', k."id",
+       CASE k."type" WHEN 'RESEARCH' THEN 'research' ELSE 'chat' END,
+       TIMESTAMP '1970-01-01 00:00:00', k."usageCount", CURRENT_TIMESTAMP
+FROM "ApiKey" k
+WHERE k."usageCount" > 0;
+
+INSERT INTO "UsageCounter" ("id", "principalType", "principalId", "meter", "periodStart", "used", "updatedAt")
+SELECT gen_random_uuid()::text, 'WALLET', w."walletAddress", 'research', TIMESTAMP '1970-01-01 00:00:00', w."researchUsed", CURRENT_TIMESTAMP
+FROM "WalletUser" w
+WHERE w."researchUsed" > 0;
+
+INSERT INTO "UsageCounter" ("id", "principalType", "principalId", "meter", "periodStart", "used", "updatedAt")
+SELECT gen_random_uuid()::text, 'WALLET', w."walletAddress", 'chat', TIMESTAMP '1970-01-01 00:00:00', w."chatUsed", CURRENT_TIMESTAMP
+FROM "WalletUser" w
+WHERE w."chatUsed" > 0;
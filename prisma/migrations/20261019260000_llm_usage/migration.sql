@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "monthlySpendCapUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "LlmUsage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "apiKeyId" TEXT,
+    "walletAddress" TEXT,
+    "operation" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_apiKeyId_createdAt_idx" ON "LlmUsage"("apiKeyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_userId_createdAt_idx" ON "LlmUsage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_walletAddress_createdAt_idx" ON "LlmUsage"("walletAddress", "createdAt");
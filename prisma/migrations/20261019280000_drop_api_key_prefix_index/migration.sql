@@ -0,0 +1,2 @@
+-- DropIndex (the unique index "ApiKey_keyPrefix_key" already covers prefix lookups)
+DROP INDEX "ApiKey_keyPrefix_idx";
@@ -0,0 +1,5 @@
+-- Pending states have no client binding; they expire within minutes anyway
+DELETE FROM "OAuthState";
+
+-- AlterTable
+ALTER TABLE "OAuthState" ADD COLUMN "bindingHash" TEXT NOT NULL;
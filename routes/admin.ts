@@ -0,0 +1,190 @@
+import { Router, Request, Response } from 'express';
+import { entitlementGrantSchema, scoreOverrideSchema } from '../lib/validation.js';
+import { createOverride, listOverrides, revokeOverride } from '../lib/scoreOverrides.js';
+import { getTokenBalanceHistory } from '../lib/tokenHolders.js';
+import {
+  EntitlementError,
+  grantEntitlement,
+  listAllEntitlements,
+  listEntitlements,
+  revokeEntitlement,
+  serializeEntitlement,
+} from '../lib/entitlements.js';
+
+const router = Router();
+
+// Mounted behind authenticate + requireAdmin in server.ts
+interface AdminRequest extends Request {
+  userId?: string;
+}
+
+// GET /api/admin/overrides - Audit trail of score overrides
+router.get('/overrides', async (req: AdminRequest, res: Response) => {
+  try {
+    const { owner, repo, active } = req.query;
+
+    const overrides = await listOverrides({
+      owner: typeof owner === 'string' ? owner : undefined,
+      repo: typeof repo === 'string' ? repo : undefined,
+      activeOnly: active === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: overrides
+    });
+  } catch (error) {
+    console.error('List overrides error:', error);
+    res.status(500).json({ error: 'Failed to fetch overrides' });
+  }
+});
+
+// POST /api/admin/overrides - Override scores for a repository
+router.post('/overrides', async (req: AdminRequest, res: Response) => {
+  try {
+    const parsed = scoreOverrideSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid override' });
+    }
+
+    const { expiresInDays, ...input } = parsed.data;
+    const override = await createOverride(req.userId!, {
+      ...input,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    console.log(`🛡️ Score override ${override.id} set on ${override.repoOwner}/${override.repoName} by ${req.userId}`);
+
+    res.json({
+      success: true,
+      message: 'Score override created',
+      data: override
+    });
+  } catch (error) {
+    console.error('Create override error:', error);
+    res.status(500).json({ error: 'Failed to create override' });
+  }
+});
+
+// DELETE /api/admin/overrides/:id - Revoke an override (kept for audit)
+router.delete('/overrides/:id', async (req: AdminRequest, res: Response) => {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+    const override = await revokeOverride(req.params.id, req.userId!, reason);
+
+    if (!override) {
+      return res.status(404).json({ error: 'Active override not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Score override revoked',
+      data: override
+    });
+  } catch (error) {
+    console.error('Revoke override error:', error);
+    res.status(500).json({ error: 'Failed to revoke override' });
+  }
+});
+
+// GET /api/admin/token-holders/:walletAddress/history - Balance checks and status changes
+router.get('/token-holders/:walletAddress/history', async (req: AdminRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '100')) || 100, 500);
+    const history = await getTokenBalanceHistory(req.params.walletAddress, {
+      changesOnly: req.query.changes === 'true',
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: history
+    });
+  } catch (error) {
+    console.error('Token history error:', error);
+    res.status(500).json({ error: 'Failed to fetch token balance history' });
+  }
+});
+
+// GET /api/admin/entitlements - Entitlements of a user or wallet (all when neither is given)
+router.get('/entitlements', async (req: AdminRequest, res: Response) => {
+  try {
+    const { userId, walletAddress, active } = req.query;
+
+    const principal = {
+      userId: typeof userId === 'string' ? userId : undefined,
+      walletAddress: typeof walletAddress === 'string' ? walletAddress : undefined,
+    };
+    const options = { activeOnly: active === 'true' };
+
+    const entitlements = principal.userId || principal.walletAddress
+      ? await listEntitlements(principal, options)
+      : await listAllEntitlements(options);
+
+    res.json({
+      success: true,
+      data: entitlements.map(serializeEntitlement)
+    });
+  } catch (error) {
+    console.error('List entitlements error:', error);
+    res.status(500).json({ error: 'Failed to fetch entitlements' });
+  }
+});
+
+// POST /api/admin/entitlements - Grant a plan to a user or wallet
+router.post('/entitlements', async (req: AdminRequest, res: Response) => {
+  try {
+    const parsed = entitlementGrantSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid entitlement' });
+    }
+
+    const { durationDays, ...grant } = parsed.data;
+    const startsAt = grant.startsAt ?? new Date();
+    const entitlement = await grantEntitlement(req.userId!, {
+      ...grant,
+      startsAt,
+      endsAt: durationDays ? new Date(startsAt.getTime() + durationDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    console.log(`🎟️ Entitlement ${entitlement.id} (${entitlement.plan}) granted by ${req.userId}`);
+
+    res.json({
+      success: true,
+      message: 'Entitlement granted',
+      data: serializeEntitlement(entitlement)
+    });
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Grant entitlement error:', error);
+    res.status(500).json({ error: 'Failed to grant entitlement' });
+  }
+});
+
+// DELETE /api/admin/entitlements/:id - Revoke an entitlement now (kept for audit)
+router.delete('/entitlements/:id', async (req: AdminRequest, res: Response) => {
+  try {
+    const entitlement = await revokeEntitlement(req.params.id, req.userId!);
+
+    if (!entitlement) {
+      return res.status(404).json({ error: 'Active entitlement not found' });
+    }
+
+    console.log(`🎟️ Entitlement ${entitlement.id} revoked by ${req.userId}`);
+
+    res.json({
+      success: true,
+      message: 'Entitlement revoked',
+      data: serializeEntitlement(entitlement)
+    });
+  } catch (error) {
+    console.error('Revoke entitlement error:', error);
+    res.status(500).json({ error: 'Failed to revoke entitlement' });
+  }
+});
+
+export default router;
@@ -1,92 +1,61 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
 import { chatWithRepository } from '../lib/ai.js';
+import { rateLimit } from '../lib/rateLimit.js';
+import { recordApiUsage, setApiUsageContext } from '../lib/apiUsage.js';
+import { findApiKey, setKeyDeprecationHeaders } from '../lib/apiKeys.js';
+import { ApiKeyScopeError, assertKeyScope, type ScopeCheck } from '../lib/apiKeyScopes.js';
+import { CallerAuthError, verifyWalletSession } from '../lib/sessions.js';
+import { resolveAccess, type Access } from '../lib/entitlements.js';
+import { consumeApiKeyCall, consumeWalletCall, QuotaExceededError, type QuotaUsage } from '../lib/metering.js';
+import { assertWithinSpendCap, SpendCapExceededError, type LlmCaller } from '../lib/llmSpend.js';
+import GitHubService from '../lib/github.js';
 
 const router = Router();
-const prisma = new PrismaClient();
 
-// Verify API key with unrepo_chatbot_ prefix
-async function verifyApiKey(apiKey: string) {
+// Verify API key with unrepo_chatbot_ prefix and check it is allowed to make this request
+async function verifyApiKey(apiKey: string, scope: ScopeCheck) {
   if (!apiKey.startsWith('unrepo_chatbot_')) {
-    throw new Error('Invalid API key format. Chatbot API keys must start with unrepo_chatbot_');
+    throw new CallerAuthError(401, 'Invalid API key format. Chatbot API keys must start with unrepo_chatbot_');
   }
 
-  const key = await prisma.apiKey.findFirst({
-    where: {
-      key: apiKey,
-      type: 'CHATBOT',
-      isActive: true,
-    },
-    include: {
-      user: true,
-    },
-  });
+  const key = await findApiKey(apiKey, { type: 'CHATBOT' });
 
   if (!key) {
-    throw new Error('Invalid or inactive API key');
-  }
-
-  const isPremium = key.user.paymentVerified || key.user.isTokenHolder;
-
-  // FREE TIER: 5 total calls per API key
-  if (!isPremium && key.usageCount >= 5) {
-    throw new Error('Free tier limit reached (5 calls). Please upgrade to continue using this API.');
+    throw new CallerAuthError(401, 'Invalid, inactive or expired API key');
   }
 
-  // PREMIUM: Rate limit check (200 per hour)
-  if (isPremium) {
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    
-    const recentUsage = await prisma.apiUsage.count({
-      where: {
-        apiKeyId: key.id,
-        createdAt: { gte: oneHourAgo },
-      },
-    });
-
-    if (recentUsage >= 200) {
-      throw new Error('Rate limit exceeded. Maximum 200 requests per hour.');
-    }
-  }
+  assertKeyScope(key, scope);
+  await assertWithinSpendCap(key);
 
-  // Update usage stats
-  await prisma.apiKey.update({
-    where: { id: key.id },
-    data: {
-      usageCount: { increment: 1 },
-      lastUsedAt: new Date(),
-    },
-  });
+  // Without an entitlement a key gets FREE_API_CALLS calls per quota period
+  const access = await resolveAccess({ userId: key.userId, walletAddress: key.user.walletAddress });
+  const usage = await consumeApiKeyCall(key, 'chat', access.apiCallLimits.chat);
 
-  return key;
+  return { key, access, usage };
 }
 
-// Verify wallet has chat access
-async function verifyWalletAccess(walletAddress: string) {
+// Verify the caller is signed in as the wallet, that it has chat access, and count the chat
+async function verifyWalletAccess(walletAddress: string, authorization: string | undefined) {
+  await verifyWalletSession(authorization, walletAddress);
+
   const walletUser = await prisma.walletUser.findUnique({
     where: { walletAddress }
   });
 
   if (!walletUser) {
-    throw new Error('Wallet not registered. Please connect and register your wallet first.');
+    throw new CallerAuthError(403, 'Wallet not registered. Please connect and register your wallet first.');
   }
 
-  // Unlimited chats for wallet users - no limit check
-  // Just update last used time
-  await prisma.walletUser.update({
-    where: { walletAddress },
-    data: {
-      chatUsed: { increment: 1 },
-      lastUsedAt: new Date(),
-    },
-  });
+  // Entitlements (token tier, premium on the linked account) raise the free allowance
+  const access = await resolveAccess({ walletAddress }, walletUser);
+  const usage = await consumeWalletCall(walletAddress, 'chat', access.chatLimit);
 
-  return walletUser;
+  return { wallet: walletUser, access, usage };
 }
 
 // POST /api/v1/chatbot
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', recordApiUsage('/api/v1/chatbot'), rateLimit('chatbot'), async (req: Request, res: Response) => {
   try {
     const apiKey = req.headers['x-api-key'] as string;
     const walletAddress = req.headers['x-wallet-address'] as string;
@@ -102,32 +71,52 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    // Check the request before verifying the caller, so a bad request counts nothing
+    const { message, repoUrl, repoContext = {}, conversationHistory = [] } = req.body ?? {};
+    console.log('💬 Message:', message?.substring(0, 50));
+    console.log('📁 RepoUrl:', repoUrl);
+
+    if (!message) {
+      return res.status(400).json({ 
+        success: false,
+        error: 'Message is required' 
+      });
+    }
+
     let userId: string | null = null;
     let keyId: string | null = null;
+    let access: Access | null = null;
+    let usage: QuotaUsage | null = null;
+    let caller: LlmCaller = {};
 
     // Verify API key OR wallet
     if (apiKey) {
       console.log('🔑 Verifying API key...');
-      const key = await verifyApiKey(apiKey);
+      const verified = await verifyApiKey(apiKey, {
+        endpoint: 'chatbot',
+        ip: req.ip,
+        repository: repoContext.owner && repoContext.name
+          ? { owner: repoContext.owner, repo: repoContext.name }
+          : repoUrl ? new GitHubService().parseRepoUrl(repoUrl) : null,
+        sendsFileContents: Array.isArray(repoContext.files)
+          && repoContext.files.some((file: { content?: string }) => Boolean(file?.content)),
+      });
+      const { key } = verified;
       console.log('✅ API key verified for user:', key.userId);
+      setKeyDeprecationHeaders(res, key);
+      setApiUsageContext(res, { userId: key.userId, apiKeyId: key.id, requestData: { message, repoUrl } });
       userId = key.userId;
       keyId = key.id;
+      caller = { userId: key.userId, apiKeyId: key.id };
+      access = verified.access;
+      usage = verified.usage;
     } else if (walletAddress) {
       console.log('👛 Verifying wallet access...');
-      const wallet = await verifyWalletAccess(walletAddress);
-      console.log('✅ Wallet verified:', walletAddress, `(${wallet.chatUsed}/${wallet.chatLimit})`);
-    }
-
-    // Get request body
-    const { message, repoUrl, repoContext = {}, conversationHistory = [] } = req.body;
-    console.log('💬 Message:', message?.substring(0, 50));
-    console.log('📁 RepoUrl:', repoUrl);
-
-    if (!message) {
-      return res.status(400).json({ 
-        success: false,
-        error: 'Message is required' 
-      });
+      const verified = await verifyWalletAccess(walletAddress, req.headers.authorization);
+      console.log('✅ Wallet verified:', walletAddress);
+      caller = { walletAddress };
+      access = verified.access;
+      usage = verified.usage;
     }
 
     // Build conversation context
@@ -138,30 +127,21 @@ router.post('/', async (req: Request, res: Response) => {
 
     // Call AI with repository context
     console.log('🤖 Calling AI...');
-    const response = await chatWithRepository(
+    const reply = await chatWithRepository(
       messages,
       {
         repoUrl: repoUrl || '',
         repoOwner: repoContext.owner || '',
         repoName: repoContext.name || '',
         files: repoContext.files || [],
-      }
+      },
+      { models: access?.models, caller }
     );
+    const { response } = reply;
     console.log('✅ AI response received:', response?.substring(0, 100));
 
-    // Log API usage (only if using API key)
+    // Save chat messages (only for API key users)
     if (userId && keyId) {
-      await prisma.apiUsage.create({
-        data: {
-          userId: userId,
-          apiKeyId: keyId,
-          endpoint: '/api/v1/chatbot',
-          method: 'POST',
-          requestData: JSON.stringify({ message, repoUrl }),
-        },
-      });
-
-      // Save chat messages (only for API key users)
       await prisma.chatMessage.createMany({
         data: [
           {
@@ -170,6 +150,8 @@ router.post('/', async (req: Request, res: Response) => {
             role: 'user',
             content: message,
             repoContext: repoUrl,
+            tokens: reply.promptTokens,
+            model: reply.model,
           },
           {
             userId: userId,
@@ -177,6 +159,8 @@ router.post('/', async (req: Request, res: Response) => {
             role: 'assistant',
             content: response,
             repoContext: repoUrl,
+            tokens: reply.completionTokens,
+            model: reply.model,
           },
         ],
       });
@@ -190,19 +174,52 @@ router.post('/', async (req: Request, res: Response) => {
           ...messages,
           { role: 'assistant', content: response }
         ],
-        usage: walletAddress 
-          ? { type: 'wallet', remaining: 'check dashboard' }
-          : { count: 'check dashboard', limit: 5 }
+        usage: usage && {
+          type: apiKey ? 'apiKey' : 'wallet',
+          count: usage.used,
+          limit: usage.limit,
+          remaining: usage.remaining,
+          resetsAt: usage.resetsAt
+        },
+        tokens: {
+          model: reply.model,
+          prompt: reply.promptTokens,
+          completion: reply.completionTokens
+        }
       }
     });
   } catch (error: any) {
     console.error('❌ Chatbot API error:', error);
     console.error('Error stack:', error.stack);
-    
-    if (error.message.includes('limit') || error.message.includes('Invalid') || error.message.includes('Wallet')) {
-      return res.status(429).json({ 
+
+    if (error instanceof CallerAuthError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof ApiKeyScopeError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+        scope: error.scope
+      });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({
+        success: false,
+        error: error.message,
+        usage: error.usage
+      });
+    }
+
+    if (error instanceof SpendCapExceededError) {
+      return res.status(429).json({
         success: false,
-        error: error.message 
+        error: error.message,
+        spend: error.spend
       });
     }
     
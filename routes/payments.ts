@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { paymentVerifySchema } from '../lib/validation.js';
+import { PaymentError, createPaymentIntent, listPayments, serializePayment, verifyPayment } from '../lib/payments.js';
+
+const router = Router();
+
+// Mounted behind authenticate in server.ts
+interface PaymentRequest extends Request {
+  userId?: string;
+}
+
+function sendPaymentError(res: Response, error: PaymentError) {
+  return res.status(error.status).json({
+    success: false,
+    error: error.message,
+    retryable: error.retryable
+  });
+}
+
+// POST /api/v1/payments/intent - Amount, recipient and reference to pay
+router.post('/intent', async (req: PaymentRequest, res: Response) => {
+  try {
+    const { payment, url } = await createPaymentIntent(req.userId!);
+
+    res.json({
+      success: true,
+      data: {
+        ...serializePayment(payment),
+        url
+      }
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    console.error('Payment intent error:', error);
+    res.status(500).json({ error: 'Failed to create payment intent' });
+  }
+});
+
+// POST /api/v1/payments/verify - Check the transfer on chain and grant premium
+router.post('/verify', async (req: PaymentRequest, res: Response) => {
+  try {
+    const parsed = paymentVerifySchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid request' });
+    }
+
+    const payment = await verifyPayment(req.userId!, parsed.data);
+
+    console.log(`💸 Payment ${payment.id} verified for user ${req.userId} (${payment.transactionHash?.slice(0, 12)}...)`);
+
+    res.json({
+      success: true,
+      message: 'Payment verified. Premium access is active.',
+      data: serializePayment(payment)
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return sendPaymentError(res, error);
+    }
+    console.error('Payment verification error:', error);
+    res.status(500).json({ error: 'Failed to verify payment' });
+  }
+});
+
+// GET /api/v1/payments - The signed-in user's payments
+router.get('/', async (req: PaymentRequest, res: Response) => {
+  try {
+    const payments = await listPayments(req.userId!);
+
+    res.json({
+      success: true,
+      data: payments.map(serializePayment)
+    });
+  } catch (error) {
+    console.error('List payments error:', error);
+    res.status(500).json({ error: 'Failed to fetch payments' });
+  }
+});
+
+export default router;
@@ -1,173 +1,127 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
 import GitHubService from '../lib/github.js';
-import { analyzeRepositoryWithClaude } from '../lib/ai.js';
+import { runRepositoryAnalysis } from '../lib/analysisPipeline.js';
+import {
+  authorizeResearchRequest,
+  identifyResearchCaller,
+  llmCaller,
+  logResearchUsage,
+  researchUsageSummary,
+} from '../lib/researchAccess.js';
+import { enqueueAnalysisJob, getAnalysisJob, serializeJob } from '../lib/analysisJobs.js';
+import { rateLimit } from '../lib/rateLimit.js';
+import { recordApiUsage } from '../lib/apiUsage.js';
+import { setKeyDeprecationHeaders } from '../lib/apiKeys.js';
+import { ApiKeyScopeError } from '../lib/apiKeyScopes.js';
+import { CallerAuthError } from '../lib/sessions.js';
+import { assertPublicWebhookUrl, WebhookUrlError } from '../lib/webhooks.js';
+import { QuotaExceededError } from '../lib/metering.js';
+import { SpendCapExceededError } from '../lib/llmSpend.js';
+import { repoAnalysisSchema } from '../lib/validation.js';
 
 const router = Router();
-const prisma = new PrismaClient();
-
-// Verify API key with unrepo_research_ prefix
-async function verifyApiKey(apiKey: string) {
-  if (!apiKey.startsWith('unrepo_research_')) {
-    throw new Error('Invalid API key format. Research API keys must start with unrepo_research_');
-  }
-
-  const key = await prisma.apiKey.findFirst({
-    where: {
-      key: apiKey,
-      type: 'RESEARCH',
-      isActive: true,
-    },
-    include: {
-      user: true,
-    },
-  });
-
-  if (!key) {
-    throw new Error('Invalid or inactive API key');
-  }
-
-  const isPremium = key.user.paymentVerified || key.user.isTokenHolder;
-
-  // FREE TIER: 5 total calls per API key
-  if (!isPremium && key.usageCount >= 5) {
-    throw new Error('Free tier limit reached (5 calls). Please upgrade to continue using this API.');
-  }
-
-  // PREMIUM: Rate limit check (100 per hour)
-  if (isPremium) {
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    
-    const recentUsage = await prisma.apiUsage.count({
-      where: {
-        apiKeyId: key.id,
-        createdAt: { gte: oneHourAgo },
-      },
-    });
-
-    if (recentUsage >= 100) {
-      throw new Error('Rate limit exceeded. Maximum 100 requests per hour.');
-    }
-  }
-
-  // Update usage stats
-  await prisma.apiKey.update({
-    where: { id: key.id },
-    data: {
-      usageCount: { increment: 1 },
-      lastUsedAt: new Date(),
-    },
-  });
-
-  return key;
-}
 
 // POST /api/v1/research
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', recordApiUsage('/api/v1/research'), rateLimit('research'), async (req: Request, res: Response) => {
   try {
     const apiKey = req.headers['x-api-key'] as string;
+    const walletAddress = req.headers['x-wallet-address'] as string;
     
-    if (!apiKey) {
-      return res.status(401).json({ error: 'API key is required in x-api-key header' });
+    if (!apiKey && !walletAddress) {
+      return res.status(401).json({ error: 'API key (x-api-key) or wallet address (x-wallet-address) is required' });
     }
 
-    // Verify API key
-    const key = await verifyApiKey(apiKey);
-
     // Get request body
-    const { repoUrl, options = {} } = req.body;
+    const body = repoAnalysisSchema.safeParse(req.body);
 
-    if (!repoUrl) {
-      return res.status(400).json({ error: 'Repository URL is required' });
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.issues[0]?.message || 'Repository URL is required' });
     }
 
-    // Parse and fetch repository
-    const githubService = new GitHubService();
-    const parsed = githubService.parseRepoUrl(repoUrl);
+    const { repoUrl, branch, forceRefresh, webhookUrl } = body.data;
+    const runAsync = body.data.async || Boolean(webhookUrl);
+
+    // Parse repository URL
+    const parsed = new GitHubService().parseRepoUrl(repoUrl);
 
     if (!parsed) {
       return res.status(400).json({ error: 'Invalid GitHub URL format' });
     }
 
-    const { owner, repo } = parsed;
+    // Checked before the call is counted
+    if (webhookUrl) {
+      await assertPublicWebhookUrl(webhookUrl);
+    }
 
-    // Fetch repository data
-    const repoData = await githubService.getRepository(owner, repo);
-    
-    // Fetch file tree and languages in parallel
-    const [fileTree, languages] = await Promise.all([
-      githubService.getFileTree(owner, repo, repoData.branch),
-      githubService.getLanguages(owner, repo),
-    ]);
-
-    // Get sample files for analysis
-    const sampleFiles = await githubService.getMultipleFiles(
-      owner,
-      repo,
-      ['README.md', 'package.json', 'Cargo.toml', 'go.mod', 'requirements.txt', 'setup.py'],
-      repoData.branch
+    // Verify API key or wallet
+    const principal = await authorizeResearchRequest(
+      { apiKey, walletAddress, authorization: req.headers.authorization },
+      { endpoint: 'research', ip: req.ip, repository: parsed }
     );
 
-    // Run AI analysis
-    let analysis = null;
-    if (process.env.ANTHROPIC_API_KEY || process.env.OPENAI_API_KEY) {
-      try {
-        analysis = await analyzeRepositoryWithClaude({
-          repoUrl,
-          repoOwner: owner,
-          repoName: repo,
-          files: sampleFiles,
-          structure: fileTree,
-        });
-      } catch (error: any) {
-        console.error('AI analysis failed:', error);
-        analysis = `AI analysis unavailable: ${error.message}`;
-      }
+    if (principal.type === 'apiKey') {
+      setKeyDeprecationHeaders(res, principal.key);
     }
 
     // Log API usage
-    await prisma.apiUsage.create({
-      data: {
-        userId: key.userId,
-        apiKeyId: key.id,
-        endpoint: '/api/v1/research',
-        method: 'POST',
-        requestData: JSON.stringify({ repoUrl }),
-      },
+    logResearchUsage(res, principal, { repoUrl, branch, forceRefresh, async: runAsync });
+
+    // Queue a job and return immediately
+    if (runAsync) {
+      const job = await enqueueAnalysisJob({
+        owner: parsed.owner,
+        repo: parsed.repo,
+        branch,
+        forceRefresh,
+        userId: principal.type === 'apiKey' ? principal.key.userId : null,
+        apiKeyId: principal.type === 'apiKey' ? principal.key.id : null,
+        walletAddress: principal.type === 'wallet' ? principal.wallet.walletAddress : null,
+        webhookUrl,
+      });
+
+      return res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: 'queued',
+          statusUrl: `/api/v1/research/jobs/${job.id}`,
+        },
+        usage: researchUsageSummary(principal)
+      });
+    }
+
+    const { report, cache } = await runRepositoryAnalysis({
+      owner: parsed.owner,
+      repo: parsed.repo,
+      branch,
+      forceRefresh,
+      userId: principal.type === 'apiKey' ? principal.key.userId : null,
+      caller: llmCaller(principal),
     });
 
-    // Build response
-    const response = {
+    res.json({
       success: true,
-      data: {
-        repository: {
-          owner,
-          name: repo,
-          url: repoUrl,
-          description: repoData.description,
-          stars: repoData.stars,
-          forks: repoData.forks,
-          language: repoData.language,
-          branch: repoData.branch,
-        },
-        languages,
-        fileTree: Array.isArray(fileTree) ? fileTree.slice(0, 100) : [], // Limit to 100 files
-        files: sampleFiles,
-        analysis: analysis || 'AI analysis not available',
-      },
-      usage: {
-        count: key.usageCount + 1,
-        limit: key.user.paymentVerified || key.user.isTokenHolder ? null : 5
-      }
-    };
-
-    res.json(response);
+      data: report,
+      cache,
+      usage: researchUsageSummary(principal)
+    });
   } catch (error: any) {
     console.error('Research API error:', error);
-    
-    if (error.message.includes('limit') || error.message.includes('Invalid')) {
-      return res.status(429).json({ error: error.message });
+
+    if (error instanceof CallerAuthError || error instanceof WebhookUrlError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    if (error instanceof ApiKeyScopeError) {
+      return res.status(403).json({ error: error.message, scope: error.scope });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, usage: error.usage });
+    }
+
+    if (error instanceof SpendCapExceededError) {
+      return res.status(429).json({ error: error.message, spend: error.spend });
     }
     
     if (error.message.includes('not found')) {
@@ -178,4 +132,38 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/v1/research/jobs/:id - Poll an asynchronous analysis job
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const apiKey = req.headers['x-api-key'] as string;
+    const walletAddress = req.headers['x-wallet-address'] as string;
+
+    const caller = await identifyResearchCaller({ apiKey, walletAddress, authorization: req.headers.authorization });
+
+    if (!caller) {
+      return res.status(401).json({ error: 'Valid API key (x-api-key) or signed-in registered wallet (x-wallet-address) is required' });
+    }
+
+    const job = await getAnalysisJob(req.params.id);
+
+    // Only the requester may see a job; unknown and foreign jobs look the same
+    const isOwner = job && (
+      (caller.userId && job.userId === caller.userId) ||
+      (caller.walletAddress && job.walletAddress === caller.walletAddress)
+    );
+
+    if (!job || !isOwner) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      success: true,
+      data: serializeJob(job)
+    });
+  } catch (error) {
+    console.error('Job status error:', error);
+    res.status(500).json({ error: 'Failed to fetch job status' });
+  }
+});
+
 export default router;
@@ -1,11 +1,45 @@
 import express, { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import nacl from 'tweetnacl';
-import bs58 from 'bs58';
-import { verifyTokenHolder, getTokenThreshold, getTokenMint } from '../lib/helius.js';
+import { prisma } from '../lib/prisma.js';
+import type { WalletUser } from '@prisma/client';
+import {
+  getTokenThreshold,
+  getTokenMint,
+  getTokenDecimals,
+  getTokenTiers,
+  getTokenTier,
+  describeTierProgress,
+} from '../lib/helius.js';
+import { resolveAccess, serializeEntitlement } from '../lib/entitlements.js';
+import { getQuotaUsage } from '../lib/metering.js';
+import { recordTokenCheck } from '../lib/tokenHolders.js';
+import { createWalletChallenge, redeemWalletChallenge } from '../lib/walletAuth.js';
+import { isValidSolanaAddress } from '../lib/validation.js';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+
+// Research and chat usage this quota period against the wallet's entitlements (null = unlimited)
+async function walletUsage(walletUser: WalletUser) {
+  const principal = { type: 'wallet' as const, id: walletUser.walletAddress };
+  const access = await resolveAccess({ walletAddress: walletUser.walletAddress }, walletUser);
+  const [research, chat] = await Promise.all([
+    getQuotaUsage(principal, 'research', access.researchLimit),
+    getQuotaUsage(principal, 'chat', access.chatLimit),
+  ]);
+
+  return {
+    researchUsed: research.used,
+    researchLimit: research.limit,
+    chatUsed: chat.used,
+    chatLimit: chat.limit,
+    resetsAt: research.resetsAt,
+    plans: access.plans,
+    entitlements: access.entitlements.map(serializeEntitlement),
+  };
+}
+
+function serializeTier(tier: ReturnType<typeof getTokenTier>) {
+  return tier && { id: tier.id, name: tier.name, minBalance: tier.minBalance };
+}
 
 // Check if wallet is registered
 router.get('/check', async (req: Request, res: Response) => {
@@ -21,18 +55,30 @@ router.get('/check', async (req: Request, res: Response) => {
     });
 
     if (walletUser) {
+      const usage = await walletUsage(walletUser);
+      const progress = describeTierProgress(walletUser.tokenBalance ?? 0, walletUser.tokenTier);
+
       return res.json({
         success: true,
         exists: true,
         data: {
           walletAddress: walletUser.walletAddress,
-          researchUsed: walletUser.researchUsed,
-          researchLimit: walletUser.researchLimit,
-          chatUsed: walletUser.chatUsed,
-          chatLimit: walletUser.chatLimit,
+          researchUsed: usage.researchUsed,
+          researchLimit: usage.researchLimit,
+          chatUsed: usage.chatUsed,
+          chatLimit: usage.chatLimit,
+          usageResetsAt: usage.resetsAt,
           isVerified: walletUser.isVerified,
           isTokenHolder: walletUser.isTokenHolder,
           tokenBalance: walletUser.tokenBalance,
+          tier: serializeTier(progress.tier),
+          balanceTier: serializeTier(progress.balanceTier),
+          graceUntil: walletUser.tokenHolderGraceUntil,
+          nextTier: serializeTier(progress.nextTier),
+          tokensToNextTier: progress.tokensToNextTier,
+          lastTokenCheck: walletUser.lastTokenCheck,
+          plans: usage.plans,
+          entitlements: usage.entitlements,
         }
       });
     }
@@ -47,7 +93,33 @@ router.get('/check', async (req: Request, res: Response) => {
   }
 });
 
-// Register new wallet with signature verification
+// Issue a sign-in challenge; the wallet signs the returned message and sends it back to /register
+router.get('/challenge', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.query;
+
+    if (!address || typeof address !== 'string' || !isValidSolanaAddress(address)) {
+      return res.status(400).json({ error: 'A valid wallet address is required' });
+    }
+
+    const challenge = await createWalletChallenge(address);
+
+    return res.json({
+      success: true,
+      data: {
+        message: challenge.message,
+        nonce: challenge.nonce,
+        domain: challenge.domain,
+        expiresAt: challenge.expiresAt.toISOString(),
+      }
+    });
+  } catch (error) {
+    console.error('Wallet challenge error:', error);
+    return res.status(500).json({ error: 'Failed to create challenge' });
+  }
+});
+
+// Register new wallet with a signed challenge
 router.post('/register', async (req: Request, res: Response) => {
   try {
     const { walletAddress, signature, message } = req.body;
@@ -77,26 +149,11 @@ router.post('/register', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify signature
-    try {
-      const messageBytes = new TextEncoder().encode(message);
-      const signatureBytes = bs58.decode(signature);
-      const publicKeyBytes = bs58.decode(walletAddress);
-      
-      const isValid = nacl.sign.detached.verify(
-        messageBytes,
-        signatureBytes,
-        publicKeyBytes
-      );
-
-      if (!isValid) {
-        return res.status(401).json({ error: 'Invalid signature' });
-      }
-    } catch (verifyError) {
-      console.error('Signature verification error:', verifyError);
-      // For development, allow registration even if verification fails
-      // In production, you should return an error here
-      console.log('Skipping signature verification for development');
+    // Verify the signature over the exact challenge we issued
+    const verification = await redeemWalletChallenge({ walletAddress, message, signature });
+
+    if (!verification.valid) {
+      return res.status(401).json({ error: verification.error });
     }
 
     // Create new wallet user
@@ -104,7 +161,7 @@ router.post('/register', async (req: Request, res: Response) => {
       data: {
         walletAddress,
         signatureHash: signature,
-        isVerified: true,
+        isVerified: !verification.bypassed,
         researchUsed: 0,
         researchLimit: 1,
         chatUsed: 0,
@@ -114,16 +171,8 @@ router.post('/register', async (req: Request, res: Response) => {
 
     // Auto-check token balance for new registrations
     try {
-      const tokenVerification = await verifyTokenHolder(walletAddress);
+      const tokenVerification = await recordTokenCheck(walletAddress, 'registration');
       if (tokenVerification.isTokenHolder) {
-        await prisma.walletUser.update({
-          where: { walletAddress },
-          data: {
-            isTokenHolder: true,
-            tokenBalance: tokenVerification.tokenBalance,
-            lastTokenCheck: new Date(),
-          }
-        });
         console.log(`🎉 New wallet ${walletAddress.slice(0, 8)}... is a token holder!`);
       }
     } catch (tokenError) {
@@ -147,17 +196,14 @@ router.post('/register', async (req: Request, res: Response) => {
   }
 });
 
-// Increment usage for wallet user
+// Deprecated: research and chat calls are counted by the API itself. Kept so
+// older clients keep working; it reports usage and no longer counts anything.
 router.post('/usage', async (req: Request, res: Response) => {
   try {
-    const { walletAddress, type } = req.body;
-
-    if (!walletAddress || !type) {
-      return res.status(400).json({ error: 'Wallet address and type are required' });
-    }
+    const { walletAddress } = req.body;
 
-    if (!['research', 'chat'].includes(type)) {
-      return res.status(400).json({ error: 'Type must be "research" or "chat"' });
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'Wallet address is required' });
     }
 
     const walletUser = await prisma.walletUser.findUnique({
@@ -168,50 +214,22 @@ router.post('/usage', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Wallet not registered' });
     }
 
-    // Token holders get unlimited access - skip limit checks
-    if (!walletUser.isTokenHolder) {
-      // Check limits for non-token holders
-      if (type === 'research' && walletUser.researchUsed >= walletUser.researchLimit) {
-        return res.status(403).json({ 
-          error: 'Research limit reached. Hold 1M+ $UNREPO tokens for unlimited access!',
-          used: walletUser.researchUsed,
-          limit: walletUser.researchLimit
-        });
-      }
-
-      if (type === 'chat' && walletUser.chatUsed >= walletUser.chatLimit) {
-        return res.status(403).json({ 
-          error: 'Chat limit reached. Hold 1M+ $UNREPO tokens for unlimited access!',
-          used: walletUser.chatUsed,
-          limit: walletUser.chatLimit
-        });
-      }
-    } else {
-      console.log(`🎉 Token holder ${walletAddress.slice(0, 8)}... using ${type} (unlimited access)`);
-    }
-
-    // Increment usage
-    const updatedWallet = await prisma.walletUser.update({
-      where: { walletAddress },
-      data: {
-        ...(type === 'research' ? { researchUsed: { increment: 1 } } : {}),
-        ...(type === 'chat' ? { chatUsed: { increment: 1 } } : {}),
-        lastUsedAt: new Date(),
-      }
-    });
+    const usage = await walletUsage(walletUser);
 
+    res.setHeader('Deprecation', 'true');
     return res.json({
       success: true,
       data: {
-        researchUsed: updatedWallet.researchUsed,
-        researchLimit: updatedWallet.researchLimit,
-        chatUsed: updatedWallet.chatUsed,
-        chatLimit: updatedWallet.chatLimit,
+        researchUsed: usage.researchUsed,
+        researchLimit: usage.researchLimit,
+        chatUsed: usage.chatUsed,
+        chatLimit: usage.chatLimit,
+        resetsAt: usage.resetsAt,
       }
     });
   } catch (error) {
-    console.error('Usage update error:', error);
-    return res.status(500).json({ error: 'Failed to update usage' });
+    console.error('Usage lookup error:', error);
+    return res.status(500).json({ error: 'Failed to get usage' });
   }
 });
 
@@ -236,21 +254,23 @@ router.get('/validate', async (req: Request, res: Response) => {
       });
     }
 
+    const usage = await walletUsage(walletUser);
     let canUse = true;
     if (type === 'research') {
-      canUse = walletUser.researchUsed < walletUser.researchLimit;
+      canUse = usage.researchLimit === null || usage.researchUsed < usage.researchLimit;
     } else if (type === 'chat') {
-      canUse = walletUser.chatUsed < walletUser.chatLimit;
+      canUse = usage.chatLimit === null || usage.chatUsed < usage.chatLimit;
     }
 
     return res.json({
       success: true,
       valid: canUse,
       data: {
-        researchUsed: walletUser.researchUsed,
-        researchLimit: walletUser.researchLimit,
-        chatUsed: walletUser.chatUsed,
-        chatLimit: walletUser.chatLimit,
+        researchUsed: usage.researchUsed,
+        researchLimit: usage.researchLimit,
+        chatUsed: usage.chatUsed,
+        chatLimit: usage.chatLimit,
+        resetsAt: usage.resetsAt,
       }
     });
   } catch (error) {
@@ -273,25 +293,33 @@ router.post('/verify-tokens', async (req: Request, res: Response) => {
 
     console.log(`🔍 Token verification request for: ${walletAddress}`);
 
-    // Check token balance using Helius API
-    const verification = await verifyTokenHolder(walletAddress);
-
-    // Update wallet user if registered
-    const walletUser = await prisma.walletUser.findUnique({
-      where: { walletAddress }
-    });
+    // Check token balance using Helius API and update the wallet and its linked account
+    const verification = await recordTokenCheck(walletAddress, 'manual');
 
-    if (walletUser) {
-      // Update token holder status in database
-      await prisma.walletUser.update({
-        where: { walletAddress },
+    // The RPC failed: report the stored status instead of treating the balance as zero
+    if (!verification.balanceKnown || verification.tokenBalance === null) {
+      return res.status(503).json({
+        success: false,
+        error: 'Token balance is temporarily unavailable. Your current status is unchanged; try again shortly.',
         data: {
           isTokenHolder: verification.isTokenHolder,
+          tier: serializeTier(getTokenTier(verification.tokenTier)),
           tokenBalance: verification.tokenBalance,
-          lastTokenCheck: new Date(),
+          graceUntil: verification.graceUntil,
         }
       });
-      console.log(`✅ Updated wallet ${walletAddress.slice(0, 8)}... isTokenHolder: ${verification.isTokenHolder}`);
+    }
+
+    const progress = describeTierProgress(verification.tokenBalance, verification.tokenTier);
+
+    let message = `You need ${(verification.threshold - verification.tokenBalance).toLocaleString()} more tokens to become a token holder.`;
+    if (verification.graceUntil) {
+      const keep = (progress.tier!.minBalance - verification.tokenBalance).toLocaleString();
+      message = `Your balance is below the ${progress.tier!.name} tier. It is kept until ${verification.graceUntil.toISOString()}; add ${keep} tokens to keep it.`;
+    } else if (progress.tier) {
+      message = progress.nextTier
+        ? `You are a ${progress.tier.name} token holder. ${progress.tokensToNextTier!.toLocaleString()} more tokens reach ${progress.nextTier.name}.`
+        : `Congratulations! You are a ${progress.tier.name} token holder.`;
     }
 
     return res.json({
@@ -300,10 +328,12 @@ router.post('/verify-tokens', async (req: Request, res: Response) => {
         isTokenHolder: verification.isTokenHolder,
         tokenBalance: verification.tokenBalance,
         threshold: verification.threshold,
+        tier: serializeTier(progress.tier),
+        nextTier: serializeTier(progress.nextTier),
+        tokensToNextTier: progress.tokensToNextTier,
+        graceUntil: verification.graceUntil,
         tokenMint: getTokenMint(),
-        message: verification.isTokenHolder 
-          ? 'Congratulations! You are a verified token holder with unlimited access.'
-          : `You need ${(verification.threshold - verification.tokenBalance).toLocaleString()} more tokens to unlock unlimited access.`
+        message
       }
     });
   } catch (error: any) {
@@ -323,14 +353,17 @@ router.get('/token-info', async (req: Request, res: Response) => {
       data: {
         tokenMint: getTokenMint(),
         threshold: getTokenThreshold(),
-        decimals: 6,
+        decimals: getTokenDecimals(),
         symbol: 'UNREPO',
-        benefits: [
-          'Unlimited AI Chat',
-          'Unlimited Research Analysis',
-          'Priority Support',
-          'Early Access to New Features'
-        ]
+        tiers: getTokenTiers().map((tier) => ({
+          id: tier.id,
+          name: tier.name,
+          minBalance: tier.minBalance,
+          researchLimit: tier.researchLimit,
+          chatLimit: tier.chatLimit,
+          rateLimits: tier.rateLimits,
+          models: tier.models,
+        }))
       }
     });
   } catch (error) {
@@ -0,0 +1,27 @@
+// Check a wallet's $UNREPO balance and tier through the configured Solana RPC provider
+// Usage: npm run token:check -- <wallet address>
+// Set SOLANA_RPC_FIXTURE_FILE=scripts/fixtures/solana.json to run offline.
+import { verifyTokenHolder } from '../lib/helius.js';
+import { getSolanaRpcProvider } from '../lib/solanaRpc.js';
+
+async function checkTokenBalance(walletAddress: string | undefined) {
+  if (!walletAddress) {
+    throw new Error('Pass a wallet address: npm run token:check -- <address>');
+  }
+
+  const rpc = getSolanaRpcProvider();
+  console.log(`🔌 Provider: ${rpc?.name ?? 'none configured'}`);
+
+  const result = await verifyTokenHolder(walletAddress);
+
+  if (result.status === 'unknown') {
+    throw new Error(`Balance unknown: ${result.error}`);
+  }
+
+  console.log(`✅ ${result.tokenBalance.toLocaleString()} UNREPO (${result.rawBalance} base units), tier: ${result.tier?.name ?? 'none'}`);
+}
+
+checkTokenBalance(process.argv[2]).catch((error) => {
+  console.error('❌', error.message);
+  process.exitCode = 1;
+});
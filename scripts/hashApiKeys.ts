@@ -0,0 +1,29 @@
+// Hash every API key still stored in plaintext (run once after the hashed_api_keys migration)
+import 'dotenv/config';
+import { prisma } from '../lib/prisma.js';
+import { hashApiKey } from '../lib/apiKeys.js';
+
+async function hashLegacyKeys() {
+  const legacyKeys = await prisma.apiKey.findMany({
+    where: { key: { not: null } },
+    select: { id: true, key: true },
+  });
+
+  console.log(`🔑 Found ${legacyKeys.length} plaintext API key(s)`);
+
+  for (const legacy of legacyKeys) {
+    await prisma.apiKey.update({
+      where: { id: legacy.id },
+      data: { key: null, keyHash: await hashApiKey(legacy.key!) },
+    });
+  }
+
+  console.log('✅ All API keys are hashed');
+}
+
+hashLegacyKeys()
+  .catch((error) => {
+    console.error('❌ Failed to hash API keys:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,15 +1,45 @@
-import 'dotenv/config';
+import { config } from './lib/config.js';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import session from 'express-session';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-import crypto from 'crypto';
+import type { User } from '@prisma/client';
+import { prisma } from './lib/prisma.js';
+import { keyGenerationRateLimit } from './lib/rateLimit.js';
+import { apiKeyCreateSchema, apiKeyRotateSchema, apiKeyScopesSchema, apiKeySpendCapSchema, spendQuerySchema, usageQuerySchema } from './lib/validation.js';
+import { generateApiKey, maskApiKey, rotateApiKey } from './lib/apiKeys.js';
+import { getKeyScopes, scopesToColumns } from './lib/apiKeyScopes.js';
+import { redeemWalletChallenge, upsertSolanaUser } from './lib/walletAuth.js';
+import {
+  SessionError,
+  createSession,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+  verifyAccessToken,
+} from './lib/sessions.js';
+import { entitlementExpiryScheduler, listEntitlements, resolveAccess, serializeEntitlement } from './lib/entitlements.js';
+import { getQuotaUsage, meterForKeyType } from './lib/metering.js';
+import { getUsageSeries, usageToCsv } from './lib/apiUsage.js';
+import { getKeySpend, getSpendReport } from './lib/llmSpend.js';
+import { getWebhookSecret, rotateWebhookSecret } from './lib/webhooks.js';
+import { AccountLinkError, linkGitHub, linkWallet, unlinkGitHub, unlinkWallet } from './lib/accountLinking.js';
+import {
+  GitHubOAuthError,
+  completeGitHubAuthorization,
+  encryptGitHubToken,
+  isAllowedRedirectUri,
+  newOAuthBinding,
+  startGitHubAuthorization,
+  type OAuthPurpose,
+} from './lib/githubOAuth.js';
+
+declare module 'express-session' {
+  interface SessionData {
+    githubOAuthBinding?: string; // binds GitHub OAuth states to this browser
+  }
+}
 
 const app = express();
-const prisma = new PrismaClient();
-const PORT = process.env.PORT || 4000;
-const JWT_SECRET = process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET || 'your-secret-key';
 
 // Allowed origins for CORS
 const allowedOrigins = [
@@ -20,9 +50,14 @@ const allowedOrigins = [
   'https://dashboard.unrepo.dev',
   'https://verify.unrepo.dev',
   'https://www.unrepo.dev',
-  process.env.FRONTEND_URL
+  config.frontendUrl
 ].filter(Boolean);
 
+// Honor X-Forwarded-For from this many proxy hops, so req.ip (rate limits, key IP allow-lists) is the client
+if (config.trustProxyHops !== undefined) {
+  app.set('trust proxy', config.trustProxyHops);
+}
+
 // Middleware
 app.use(cors({
   origin: function(origin, callback) {
@@ -47,11 +82,11 @@ app.use(cors({
 
 app.use(express.json());
 app.use(session({
-  secret: JWT_SECRET,
+  secret: config.auth.jwtSecret,
   resave: false,
   saveUninitialized: false,
   cookie: {
-    secure: process.env.NODE_ENV === 'production',
+    secure: config.isProduction,
     httpOnly: true,
     maxAge: 24 * 60 * 60 * 1000 // 24 hours
   }
@@ -60,6 +95,7 @@ app.use(session({
 // Auth middleware
 interface AuthRequest extends Request {
   userId?: string;
+  sessionId?: string;
   user?: any;
 }
 
@@ -74,33 +110,59 @@ async function authenticate(req: AuthRequest, res: Response, next: NextFunction)
     const token = authHeader.substring(7);
     
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      req.userId = decoded.userId;
-      
-      // Fetch user from database
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId }
-      });
-
-      if (!user) {
-        return res.status(401).json({ error: 'User not found' });
-      }
+      // Checks the signature and that the session has not been revoked
+      const { sessionId, user } = await verifyAccessToken(token);
 
+      req.userId = user.id;
+      req.sessionId = sessionId;
       req.user = user;
       next();
     } catch (error) {
-      return res.status(401).json({ error: 'Invalid token' });
+      if (error instanceof SessionError) {
+        return res.status(401).json({ error: error.message });
+      }
+      throw error;
     }
   } catch (error) {
     return res.status(500).json({ error: 'Authentication error' });
   }
 }
 
-// Generate API key helper
-function generateApiKey(type: 'RESEARCH' | 'CHATBOT'): string {
-  const prefix = type === 'RESEARCH' ? 'unrepo_research_' : 'unrepo_chatbot_';
-  const randomBytes = crypto.randomBytes(32).toString('hex');
-  return prefix + randomBytes;
+// Admin-only middleware (use after authenticate)
+function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+}
+
+// Session tokens shared by GitHub and Solana sign-in
+async function sendLoginResponse(req: Request, res: Response, user: User) {
+  const tokens = await createSession(user, { ip: req.ip, userAgent: req.headers['user-agent'] });
+
+  res.json({
+    success: true,
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn,
+    refreshExpiresAt: tokens.refreshExpiresAt.toISOString(),
+    user: serializeLoginUser(user)
+  });
+}
+
+function serializeLoginUser(user: User) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    avatar: user.avatar,
+    authMethod: user.authMethod,
+    githubUsername: user.githubUsername,
+    walletAddress: user.walletAddress,
+    hasGitHubToken: Boolean(user.githubAccessToken),
+    isTokenHolder: user.isTokenHolder,
+    paymentVerified: user.paymentVerified
+  };
 }
 
 // ===== ROUTES =====
@@ -110,136 +172,343 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// GitHub OAuth login
+// Shared by the sign-in and link authorize endpoints
+async function sendGitHubAuthorization(req: Request, res: Response, purpose: OAuthPurpose, userId: string | null) {
+  const redirectUri = typeof req.query.redirectUri === 'string' ? req.query.redirectUri : config.github.oauthRedirectUri;
+
+  if (redirectUri && !isAllowedRedirectUri(redirectUri)) {
+    return res.status(400).json({ error: 'redirectUri is not a registered redirect URI' });
+  }
+
+  try {
+    // The callback must come from the same browser session
+    req.session.githubOAuthBinding ??= newOAuthBinding();
+
+    const authorization = await startGitHubAuthorization({
+      purpose,
+      binding: req.session.githubOAuthBinding,
+      userId,
+      redirectUri,
+      privateRepos: req.query.privateRepos === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: {
+        url: authorization.url,
+        state: authorization.state,
+        expiresAt: authorization.expiresAt.toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('GitHub authorize error:', error);
+    res.status(503).json({ error: error.message || 'GitHub sign-in is unavailable' });
+  }
+}
+
+function sendOAuthError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof GitHubOAuthError) {
+    return res.status(401).json({ error: error.message });
+  }
+  sendLinkError(res, error, fallback);
+}
+
+// Start GitHub sign-in: returns the GitHub authorization URL (state + PKCE are kept server-side,
+// bound to this browser's session cookie)
+app.get('/auth/github/authorize', (req: Request, res: Response) => sendGitHubAuthorization(req, res, 'login', null));
+
+// GitHub OAuth login: exchange the authorization code returned to the frontend
 app.post('/auth/github/login', async (req: Request, res: Response) => {
   try {
-    const { githubId, githubUsername, name, email, avatar } = req.body;
+    const { code, state } = req.body;
 
-    if (!githubId || !githubUsername) {
-      return res.status(400).json({ error: 'GitHub ID and username are required' });
+    if (typeof code !== 'string' || typeof state !== 'string' || !code || !state) {
+      return res.status(400).json({ error: 'OAuth code and state are required' });
     }
 
+    const { profile, accessToken, scope } = await completeGitHubAuthorization({
+      code,
+      state,
+      purpose: 'login',
+      binding: req.session.githubOAuthBinding ?? null,
+    });
+    const storedToken = accessToken
+      ? { githubAccessToken: encryptGitHubToken(accessToken), githubTokenScope: scope }
+      : {};
+
     // Upsert user
     const user = await prisma.user.upsert({
-      where: { githubId: githubId.toString() },
+      where: { githubId: profile.id },
       update: {
-        githubUsername,
-        name: name || githubUsername,
-        avatar,
-        email,
+        githubUsername: profile.login,
+        name: profile.name || profile.login,
+        avatar: profile.avatarUrl,
+        ...(profile.email && { email: profile.email }),
         lastLogin: new Date(),
+        ...storedToken,
       },
       create: {
-        githubId: githubId.toString(),
-        githubUsername,
-        name: name || githubUsername,
-        avatar,
-        email,
+        githubId: profile.id,
+        githubUsername: profile.login,
+        name: profile.name || profile.login,
+        avatar: profile.avatarUrl,
+        email: profile.email,
         authMethod: 'GITHUB',
+        lastLogin: new Date(),
+        ...storedToken,
       },
     });
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, githubId: user.githubId },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    await sendLoginResponse(req, res, user);
+  } catch (error) {
+    sendOAuthError(res, error, 'Login failed');
+  }
+});
+
+// Forget the stored GitHub token (private repository access)
+app.delete('/auth/github/token', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await prisma.user.update({
+      where: { id: req.userId! },
+      data: { githubAccessToken: null, githubTokenScope: null }
+    });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Forget GitHub token error:', error);
+    res.status(500).json({ error: 'Failed to remove GitHub token' });
+  }
+});
+
+// Sign-in with Solana: verify a signed challenge from /api/v1/wallet/challenge
+app.post('/auth/solana/login', async (req: Request, res: Response) => {
+  try {
+    const { walletAddress, signature, message } = req.body;
+
+    if (!walletAddress || !signature || !message) {
+      return res.status(400).json({ error: 'Wallet address, signature, and message are required' });
+    }
+
+    const verification = await redeemWalletChallenge({ walletAddress, message, signature });
+
+    if (!verification.valid) {
+      return res.status(401).json({ error: verification.error });
+    }
+
+    const user = await upsertSolanaUser(walletAddress);
+
+    await sendLoginResponse(req, res, user);
+  } catch (error) {
+    console.error('Solana login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Exchange a refresh token for new tokens (the refresh token rotates on every use)
+app.post('/auth/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const tokens = await refreshSession(refreshToken, { ip: req.ip, userAgent: req.headers['user-agent'] });
 
     res.json({
       success: true,
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        avatar: user.avatar,
-        githubUsername: user.githubUsername,
-        isTokenHolder: user.isTokenHolder,
-        paymentVerified: user.paymentVerified
-      }
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+      refreshExpiresAt: tokens.refreshExpiresAt.toISOString()
     });
   } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
+    if (error instanceof SessionError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Token refresh failed' });
+  }
+});
+
+// Log out: revoke the current session
+app.post('/auth/logout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.sessionId!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// Log out all devices: revoke every session of the signed-in user
+app.post('/auth/logout-all', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeAllSessions(req.userId!);
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Logout failed' });
   }
 });
 
 // Get current user session
 app.get('/auth/session', authenticate, async (req: AuthRequest, res: Response) => {
   try {
+    // Never return the stored GitHub token, even encrypted
+    const { githubAccessToken, ...user } = req.user;
+
     res.json({
       success: true,
-      user: req.user
+      user: { ...user, hasGitHubToken: Boolean(githubAccessToken) }
     });
   } catch (error) {
     res.status(500).json({ error: 'Session fetch failed' });
   }
 });
 
-// Create API Key (No auth required for easy testing)
-app.post('/api/keys/generate', async (req: Request, res: Response) => {
+function sendLinkError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof AccountLinkError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Link a Solana wallet to the signed-in user (signed challenge from /api/v1/wallet/challenge)
+app.post('/auth/link/wallet', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { type, name, email } = req.body;
+    const { walletAddress, signature, message } = req.body;
 
-    if (!type || !['RESEARCH', 'CHATBOT'].includes(type)) {
-      return res.status(400).json({ error: 'Invalid API key type. Must be RESEARCH or CHATBOT' });
+    if (!walletAddress || !signature || !message) {
+      return res.status(400).json({ error: 'Wallet address, signature, and message are required' });
     }
 
-    if (!name || name.trim().length === 0) {
-      return res.status(400).json({ error: 'API name is required' });
+    const verification = await redeemWalletChallenge({ walletAddress, message, signature });
+
+    if (!verification.valid) {
+      return res.status(401).json({ error: verification.error });
     }
 
-    // Get or create user by email (defaults to test user if no email provided)
-    const userEmail = email || 'test@unrepo.dev';
-    
-    // Find existing user
-    let user = await prisma.user.findFirst({
-      where: { email: userEmail },
-      select: { id: true, email: true, name: true }
-    });
-
-    // Create user if doesn't exist
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          email: userEmail,
-          name: name,
-          authMethod: 'GITHUB',
-          githubId: `temp_${Date.now()}`,
-          githubUsername: userEmail.split('@')[0],
-        },
-        select: { id: true, email: true, name: true }
+    const user = await linkWallet(req.userId!, walletAddress);
+    res.json({ success: true, user: serializeLoginUser(user) });
+  } catch (error) {
+    sendLinkError(res, error, 'Failed to link wallet');
+  }
+});
+
+// Unlink the wallet from the signed-in user
+app.delete('/auth/link/wallet', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await unlinkWallet(req.userId!);
+    res.json({ success: true, user: serializeLoginUser(user) });
+  } catch (error) {
+    sendLinkError(res, error, 'Failed to unlink wallet');
+  }
+});
+
+// Start linking GitHub to the signed-in user (the state is bound to this user)
+app.get('/auth/link/github/authorize', authenticate, (req: AuthRequest, res: Response) =>
+  sendGitHubAuthorization(req, res, 'link', req.userId!));
+
+// Link a GitHub identity to the signed-in user: exchange the authorization code
+app.post('/auth/link/github', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { code, state } = req.body;
+
+    if (typeof code !== 'string' || typeof state !== 'string' || !code || !state) {
+      return res.status(400).json({ error: 'OAuth code and state are required' });
+    }
+
+    const { profile, accessToken, scope } = await completeGitHubAuthorization({
+      code,
+      state,
+      purpose: 'link',
+      binding: req.session.githubOAuthBinding ?? null,
+      userId: req.userId!,
+    });
+
+    const user = await linkGitHub(req.userId!, {
+      githubId: profile.id,
+      githubUsername: profile.login,
+      name: profile.name,
+      email: profile.email,
+      avatar: profile.avatarUrl,
+      accessToken: accessToken ? encryptGitHubToken(accessToken) : null,
+      tokenScope: accessToken ? scope : null,
+    });
+    res.json({ success: true, user: serializeLoginUser(user) });
+  } catch (error) {
+    sendOAuthError(res, error, 'Failed to link GitHub account');
+  }
+});
+
+// Unlink GitHub from the signed-in user
+app.delete('/auth/link/github', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await unlinkGitHub(req.userId!);
+    res.json({ success: true, user: serializeLoginUser(user) });
+  } catch (error) {
+    sendLinkError(res, error, 'Failed to unlink GitHub account');
+  }
+});
+
+// Create API Key for the signed-in user
+app.post('/api/keys/generate', authenticate, keyGenerationRateLimit(), async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = apiKeyCreateSchema.safeParse({
+      ...req.body,
+      name: typeof req.body?.name === 'string' ? req.body.name.trim() : req.body?.name,
+    });
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({
+        error: issue?.path[0] === 'type'
+          ? 'Invalid API key type. Must be RESEARCH or CHATBOT'
+          : issue?.message || 'Invalid request'
       });
     }
 
+    const { type, name, expiresInDays, scopes, monthlySpendCapUsd } = parsed.data;
+
+    if (!name) {
+      return res.status(400).json({ error: 'API name is required' });
+    }
+
     // Generate and save new API key (allow multiple keys per user)
-    const apiKey = generateApiKey(type as 'RESEARCH' | 'CHATBOT');
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey(type);
 
     const newKey = await prisma.apiKey.create({
       data: {
-        userId: user.id,
-        key: apiKey,
+        userId: req.userId!,
+        keyPrefix,
+        keyHash,
         type,
-        name: name.trim(),
+        name,
         isActive: true,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+        monthlySpendCapUsd: monthlySpendCapUsd ?? null,
+        ...scopesToColumns(scopes ?? {}),
       },
-      select: {
-        key: true,
-        type: true,
-        name: true,
-        createdAt: true,
-        isActive: true,
-        usageCount: true
-      }
     });
 
+    // The full key is only returned here; listings show it masked
     res.json({
       success: true,
       message: 'API key created successfully',
       data: {
-        apiKey: newKey.key,
-        ...newKey
+        apiKey: plaintext,
+        id: newKey.id,
+        keyPrefix: newKey.keyPrefix,
+        type: newKey.type,
+        name: newKey.name,
+        createdAt: newKey.createdAt,
+        expiresAt: newKey.expiresAt,
+        isActive: newKey.isActive,
+        usageCount: newKey.usageCount,
+        scopes: getKeyScopes(newKey),
+        monthlySpendCapUsd: newKey.monthlySpendCapUsd
       }
     });
   } catch (error) {
@@ -248,47 +517,47 @@ app.post('/api/keys/generate', async (req: Request, res: Response) => {
   }
 });
 
-// Get all API keys for user (no-auth version by email)
-app.get('/api/keys', async (req: Request, res: Response) => {
+// Get all API keys for the signed-in user
+app.get('/api/keys', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const email = req.query.email as string;
-    
-    if (!email) {
-      return res.status(400).json({ error: 'Email parameter required' });
-    }
-
-    // Find or create user by email
-    let user = await prisma.user.findUnique({
-      where: { email }
-    });
-
-    if (!user) {
-      return res.json({
-        success: true,
-        data: []
-      });
-    }
-
+    const now = new Date();
     const keys = await prisma.apiKey.findMany({
       where: {
-        userId: user.id,
-        isActive: true
+        userId: req.userId!,
+        isActive: true,
+        // Hide rotated keys once their grace period is over
+        OR: [{ graceExpiresAt: null }, { graceExpiresAt: { gt: now } }]
       },
       orderBy: { createdAt: 'desc' }
     });
 
-    const isPremium = user.paymentVerified || user.isTokenHolder;
+    const access = await resolveAccess({ userId: req.userId, walletAddress: req.user.walletAddress });
+    const isPremium = access.premium;
 
-    const keysWithTier = keys.map(key => ({
+    const periodUsage = await Promise.all(keys.map(key => {
+      const meter = meterForKeyType(key.type);
+      return getQuotaUsage({ type: 'apiKey', id: key.id }, meter, access.apiCallLimits[meter]);
+    }));
+    const spend = await Promise.all(keys.map(key => getKeySpend(key)));
+
+    const keysWithTier = keys.map((key, index) => ({
       id: key.id,
       name: key.name,
-      key: key.key,
+      key: maskApiKey(key.keyPrefix),
       type: key.type,
       usageCount: key.usageCount,
       createdAt: key.createdAt,
+      expiresAt: key.expiresAt,
+      isExpired: key.expiresAt !== null && key.expiresAt <= now,
       isActive: key.isActive,
+      rotatedToId: key.rotatedToId,
+      graceExpiresAt: key.graceExpiresAt,
+      scopes: getKeyScopes(key),
       isPremium,
-      remainingCalls: isPremium ? null : Math.max(0, 5 - key.usageCount)
+      periodUsage: periodUsage[index].used,
+      remainingCalls: periodUsage[index].remaining,
+      usageResetsAt: periodUsage[index].resetsAt,
+      spend: spend[index]
     }));
 
     res.json({
@@ -301,38 +570,28 @@ app.get('/api/keys', async (req: Request, res: Response) => {
   }
 });
 
-// Get API key usage
-// Get usage stats (no-auth version by email)
-app.get('/api/keys/usage', async (req: Request, res: Response) => {
+// Get usage stats for the signed-in user's keys
+app.get('/api/keys/usage', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const email = req.query.email as string;
-    
-    if (!email) {
-      return res.status(400).json({ error: 'Email parameter required' });
-    }
-
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email }
-    });
-
-    if (!user) {
-      return res.json({
-        success: true,
-        data: []
-      });
-    }
-
+    const now = new Date();
     const keys = await prisma.apiKey.findMany({
       where: {
-        userId: user.id,
-        isActive: true
+        userId: req.userId!,
+        isActive: true,
+        // Same filter as /api/keys: rotated keys drop out when their grace period ends
+        OR: [{ graceExpiresAt: null }, { graceExpiresAt: { gt: now } }]
       }
     });
 
-    const usage = keys.map(key => ({
+    const periodUsage = await Promise.all(keys.map(key =>
+      getQuotaUsage({ type: 'apiKey', id: key.id }, meterForKeyType(key.type), null)
+    ));
+
+    const usage = keys.map((key, index) => ({
+      id: key.id,
       type: key.type,
       usageCount: key.usageCount,
+      periodUsage: periodUsage[index].used,
       lastUsed: key.lastUsedAt
     }));
 
@@ -345,11 +604,307 @@ app.get('/api/keys/usage', async (req: Request, res: Response) => {
   }
 });
 
-// Delete API key
-app.delete('/api/keys/:keyId', async (req: Request, res: Response) => {
+// Usage over time for the signed-in user's keys: requests and errors per day
+// or hour, optionally broken down by endpoint, key and response status.
+// ?format=csv downloads the same rows as CSV.
+app.get('/api/usage', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = usageQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid usage query' });
+    }
+
+    const { from, to, granularity, groupBy, keyId, format } = parsed.data;
+    const series = await getUsageSeries({ userId: req.userId!, from, to, granularity, groupBy, apiKeyId: keyId });
+
+    if (format === 'csv') {
+      const day = (date: Date) => date.toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="unrepo-usage-${day(from)}-${day(to)}.csv"`);
+      return res.send(usageToCsv(series, groupBy));
+    }
+
+    const requests = series.reduce((sum, row) => sum + row.requests, 0);
+    const errors = series.reduce((sum, row) => sum + row.errors, 0);
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        granularity,
+        groupBy,
+        totals: {
+          requests,
+          errors,
+          errorRate: requests > 0 ? errors / requests : 0
+        },
+        series
+      }
+    });
+  } catch (error) {
+    console.error('Fetch usage analytics error:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
+// Estimated LLM spend for the signed-in user's keys and linked wallet: calls,
+// tokens and cost by key and model (default: this month), plus each key's cap
+app.get('/api/spend', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = spendQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid spend query' });
+    }
+
+    const { from, to } = parsed.data;
+    const [rows, keys] = await Promise.all([
+      getSpendReport({ userId: req.userId!, walletAddress: req.user.walletAddress }, from, to),
+      prisma.apiKey.findMany({
+        where: { userId: req.userId!, isActive: true },
+        orderBy: { createdAt: 'desc' }
+      }),
+    ]);
+    const keySpend = await Promise.all(keys.map(key => getKeySpend(key)));
+    const names = new Map(keys.map(key => [key.id, key.name]));
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        totals: {
+          calls: rows.reduce((sum, row) => sum + row.calls, 0),
+          promptTokens: rows.reduce((sum, row) => sum + row.promptTokens, 0),
+          completionTokens: rows.reduce((sum, row) => sum + row.completionTokens, 0),
+          costUsd: rows.reduce((sum, row) => sum + row.costUsd, 0)
+        },
+        breakdown: rows.map(row => ({ ...row, keyName: row.apiKeyId ? names.get(row.apiKeyId) ?? null : null })),
+        keys: keys.map((key, index) => ({
+          id: key.id,
+          name: key.name,
+          type: key.type,
+          ...keySpend[index]
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Fetch spend error:', error);
+    res.status(500).json({ error: 'Failed to fetch spend' });
+  }
+});
+
+// Secret the signed-in user's job webhooks are signed with (X-UnRepo-Signature)
+app.get('/api/webhooks/secret', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: { secret: await getWebhookSecret(req.userId!) }
+    });
+  } catch (error) {
+    console.error('Fetch webhook secret error:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook secret' });
+  }
+});
+
+// Replace the webhook secret; webhooks sent from now on use the new one
+app.post('/api/webhooks/secret/rotate', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: { secret: await rotateWebhookSecret(req.userId!) }
+    });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+// Plans the signed-in user has now, account usage this quota period, and entitlement history
+app.get('/api/entitlements', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const principal = { userId: req.userId, walletAddress: req.user.walletAddress };
+    const account = { type: 'user' as const, id: req.userId! };
+    const [access, history, research, chat] = await Promise.all([
+      resolveAccess(principal),
+      listEntitlements(principal),
+      getQuotaUsage(account, 'research', null),
+      getQuotaUsage(account, 'chat', null),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        premium: access.premium,
+        plans: access.plans,
+        limits: {
+          researchLimit: access.researchLimit,
+          chatLimit: access.chatLimit,
+          apiCallLimits: access.apiCallLimits,
+          rateLimits: access.rateLimits,
+          models: access.models ?? null
+        },
+        usage: {
+          research: research.used,
+          chat: chat.used,
+          resetsAt: research.resetsAt
+        },
+        active: access.entitlements.map(serializeEntitlement),
+        history: history.map(serializeEntitlement)
+      }
+    });
+  } catch (error) {
+    console.error('Fetch entitlements error:', error);
+    res.status(500).json({ error: 'Failed to fetch entitlements' });
+  }
+});
+
+// Update API key scopes (owner only); omitted fields are left unchanged
+app.patch('/api/keys/:keyId/scopes', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = apiKeyScopesSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid scopes' });
+    }
+
+    const key = await prisma.apiKey.findUnique({
+      where: { id: req.params.keyId }
+    });
+
+    if (!key) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    if (key.userId !== req.userId) {
+      return res.status(403).json({ error: 'Unauthorized to update this key' });
+    }
+
+    const updated = await prisma.apiKey.update({
+      where: { id: key.id },
+      data: scopesToColumns(parsed.data)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        scopes: getKeyScopes(updated)
+      }
+    });
+  } catch (error) {
+    console.error('Update key scopes error:', error);
+    res.status(500).json({ error: 'Failed to update API key scopes' });
+  }
+});
+
+// Set or remove a key's monthly LLM spend cap (owner only)
+app.patch('/api/keys/:keyId/spend-cap', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = apiKeySpendCapSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid spend cap' });
+    }
+
+    const key = await prisma.apiKey.findUnique({
+      where: { id: req.params.keyId }
+    });
+
+    if (!key) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    if (key.userId !== req.userId) {
+      return res.status(403).json({ error: 'Unauthorized to update this key' });
+    }
+
+    const updated = await prisma.apiKey.update({
+      where: { id: key.id },
+      data: { monthlySpendCapUsd: parsed.data.monthlySpendCapUsd }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        spend: await getKeySpend(updated)
+      }
+    });
+  } catch (error) {
+    console.error('Update key spend cap error:', error);
+    res.status(500).json({ error: 'Failed to update API key spend cap' });
+  }
+});
+
+// Rotate API key (owner only): issue a replacement, keep the old key working for a grace period
+app.post('/api/keys/:keyId/rotate', authenticate, keyGenerationRateLimit(), async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = apiKeyRotateSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid request' });
+    }
+
+    const key = await prisma.apiKey.findUnique({
+      where: { id: req.params.keyId }
+    });
+
+    if (!key) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    if (key.userId !== req.userId) {
+      return res.status(403).json({ error: 'Unauthorized to rotate this key' });
+    }
+
+    if (!key.isActive || key.rotatedToId) {
+      return res.status(409).json({ error: 'API key is inactive or has already been rotated' });
+    }
+
+    const gracePeriodHours = parsed.data.gracePeriodHours
+      ?? config.apiKeys.rotationGraceHours;
+
+    const { plaintext, key: replacement, graceExpiresAt } = await rotateApiKey(
+      key.id,
+      req.userId!,
+      gracePeriodHours * 60 * 60 * 1000,
+      { ip: req.ip, userAgent: req.headers['user-agent'] }
+    );
+
+    // The new key is only returned here; listings show it masked
+    res.json({
+      success: true,
+      message: 'API key rotated successfully',
+      data: {
+        apiKey: plaintext,
+        id: replacement.id,
+        keyPrefix: replacement.keyPrefix,
+        type: replacement.type,
+        name: replacement.name,
+        createdAt: replacement.createdAt,
+        expiresAt: replacement.expiresAt,
+        usageCount: replacement.usageCount,
+        scopes: getKeyScopes(replacement),
+        previousKey: {
+          id: key.id,
+          key: maskApiKey(key.keyPrefix),
+          graceExpiresAt
+        }
+      }
+    });
+  } catch (error) {
+    console.error('API key rotation error:', error);
+    res.status(500).json({ error: 'Failed to rotate API key' });
+  }
+});
+
+// Delete API key (owner only)
+app.delete('/api/keys/:keyId', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const { keyId } = req.params;
-    const email = req.query.email as string;
 
     if (!keyId) {
       return res.status(400).json({ error: 'Key ID is required' });
@@ -357,16 +912,15 @@ app.delete('/api/keys/:keyId', async (req: Request, res: Response) => {
 
     // Find the key
     const key = await prisma.apiKey.findUnique({
-      where: { id: keyId },
-      include: { user: true }
+      where: { id: keyId }
     });
 
     if (!key) {
       return res.status(404).json({ error: 'API key not found' });
     }
 
-    // If email provided, verify ownership
-    if (email && key.user.email !== email) {
+    // Verify ownership
+    if (key.userId !== req.userId) {
       return res.status(403).json({ error: 'Unauthorized to delete this key' });
     }
 
@@ -390,11 +944,17 @@ import chatbotRouter from './routes/chatbot.js';
 import researchRouter from './routes/research.js';
 import walletRouter from './routes/wallet.js';
 import analyzeRouter from './routes/analyze.js';
+import adminRouter from './routes/admin.js';
+import paymentsRouter from './routes/payments.js';
+import { analysisWorkerPool } from './lib/analysisJobs.js';
+import { tokenRecheckScheduler } from './lib/tokenHolders.js';
 
 app.use('/api/v1/chatbot', chatbotRouter);
 app.use('/api/v1/research', researchRouter);
 app.use('/api/v1/wallet', walletRouter);
+app.use('/api/v1/payments', authenticate, paymentsRouter);
 app.use('/api/v1', analyzeRouter);
+app.use('/api/admin', authenticate, requireAdmin, adminRouter);
 
 // Error handling middleware
 app.use((err: any, req: Request, res: Response, next: NextFunction) => {
@@ -403,15 +963,24 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
 });
 
 // Start server
-app.listen(PORT, () => {
-  console.log(`🚀 UnRepo API Server running on port ${PORT}`);
-  console.log(`📍 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
-  console.log(`🔐 Environment: ${process.env.NODE_ENV || 'development'}`);
+app.listen(config.port, () => {
+  console.log(`🚀 UnRepo API Server running on port ${config.port}`);
+  console.log(`📍 Frontend URL: ${config.frontendUrl || 'http://localhost:3000'}`);
+  console.log(`🔐 Environment: ${config.env}`);
+
+  analysisWorkerPool.start().catch((error) => {
+    console.error('Failed to start analysis workers:', error);
+  });
+  tokenRecheckScheduler.start();
+  entitlementExpiryScheduler.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  analysisWorkerPool.stop();
+  tokenRecheckScheduler.stop();
+  entitlementExpiryScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
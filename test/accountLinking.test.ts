@@ -0,0 +1,91 @@
+import { db, resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountLinkError, linkGitHub, linkWallet, unlinkGitHub, unlinkWallet } from '../lib/accountLinking.js';
+import { consumeQuota, getQuotaUsage } from '../lib/metering.js';
+
+const WALLET = 'Wallet1111111111111111111111111111111111111';
+const github = { githubId: '42', githubUsername: 'octocat' };
+
+function refusedWith(status: number) {
+  return (error: unknown) => error instanceof AccountLinkError && error.status === status;
+}
+
+describe('account linking', () => {
+  beforeEach(() => {
+    resetDb();
+    seed('user', { id: 'github-user', authMethod: 'GITHUB', githubId: '42', githubUsername: 'octocat', chatLimit: 5 });
+  });
+
+  it('links a wallet nobody has signed in with', async () => {
+    const user = await linkWallet('github-user', WALLET);
+
+    assert.equal(user.walletAddress, WALLET);
+    assert.equal(db.user.length, 1);
+  });
+
+  it('merges the wallet account into the signed-in one', async () => {
+    seed('user', { id: 'wallet-user', walletAddress: WALLET, chatLimit: 50, paymentVerified: true, webhookSecret: 'whsec_wallet' });
+    seed('apiKey', { id: 'key-1', userId: 'wallet-user' });
+    seed('payment', { id: 'payment-1', userId: 'wallet-user' });
+    seed('entitlement', { id: 'entitlement-1', userId: 'wallet-user', plan: 'premium', source: 'PAYMENT' });
+    seed('llmUsage', { userId: 'wallet-user', costUsd: 1 });
+    await consumeQuota({ principal: { type: 'user', id: 'wallet-user' }, meter: 'chat', limit: null });
+    await consumeQuota({ principal: { type: 'user', id: 'wallet-user' }, meter: 'chat', limit: null });
+    await consumeQuota({ principal: { type: 'user', id: 'github-user' }, meter: 'chat', limit: null });
+
+    const user = await linkWallet('github-user', WALLET);
+
+    assert.deepEqual(db.user.map((row) => row.id), ['github-user']);
+    assert.equal(user.walletAddress, WALLET);
+    assert.equal(user.githubId, '42');
+    assert.equal(user.chatLimit, 50);
+    assert.equal(user.paymentVerified, true);
+    assert.equal(user.webhookSecret, 'whsec_wallet');
+
+    assert.equal(db.apiKey[0].userId, 'github-user');
+    assert.equal(db.payment[0].userId, 'github-user');
+    assert.equal(db.entitlement[0].userId, 'github-user');
+    assert.equal(db.llmUsage[0].userId, 'github-user');
+    assert.equal((await getQuotaUsage({ type: 'user', id: 'github-user' }, 'chat', null)).used, 3);
+    assert.equal(db.usageCounter.length, 1);
+  });
+
+  it("keeps the signed-in account's webhook secret", async () => {
+    db.user[0].webhookSecret = 'whsec_github';
+    seed('user', { id: 'wallet-user', walletAddress: WALLET, webhookSecret: 'whsec_wallet' });
+
+    assert.equal((await linkWallet('github-user', WALLET)).webhookSecret, 'whsec_github');
+  });
+
+  it('merges the GitHub account into a wallet account', async () => {
+    seed('user', { id: 'wallet-user', walletAddress: WALLET });
+    seed('apiKey', { id: 'key-1', userId: 'github-user' });
+
+    const user = await linkGitHub('wallet-user', { ...github, accessToken: 'encrypted', tokenScope: 'repo' });
+
+    assert.deepEqual(db.user.map((row) => row.id), ['wallet-user']);
+    assert.equal(user.githubUsername, 'octocat');
+    assert.equal(user.githubAccessToken, 'encrypted');
+    assert.equal(db.apiKey[0].userId, 'wallet-user');
+  });
+
+  it('refuses identities that belong to an account with both', async () => {
+    seed('user', { id: 'both', walletAddress: WALLET, githubId: '7' });
+    seed('user', { id: 'wallet-only', walletAddress: 'Wallet2222222222222222222222222222222222222' });
+
+    await assert.rejects(linkWallet('github-user', WALLET), refusedWith(409));
+    await assert.rejects(linkGitHub('wallet-only', { githubId: '7', githubUsername: 'other' }), refusedWith(409));
+    assert.equal(db.user.length, 3);
+  });
+
+  it('refuses to unlink the only login method', async () => {
+    await assert.rejects(unlinkGitHub('github-user'), refusedWith(409));
+    await assert.rejects(unlinkWallet('github-user'), refusedWith(400));
+
+    await linkWallet('github-user', WALLET);
+    const user = await unlinkWallet('github-user');
+    assert.equal(user.walletAddress, null);
+    assert.equal(user.authMethod, 'GITHUB');
+  });
+});
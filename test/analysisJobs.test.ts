@@ -0,0 +1,162 @@
+import { db, resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { AnalysisWorkerPool } from '../lib/analysisJobs.js';
+import type { AnalysisOutcome } from '../lib/analysisPipeline.js';
+import { createPinnedDispatcher, isPublicAddress, signWebhookPayload } from '../lib/webhooks.js';
+
+const WEBHOOK_URL = 'https://93.184.216.34/hook'; // a public address literal, so no DNS is needed
+
+const outcome = {
+  report: { repository: { owner: 'octocat', name: 'hello-world' }, override: null },
+  cache: { hit: false },
+} as unknown as AnalysisOutcome;
+
+interface Delivery {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  dispatcher: unknown;
+}
+
+// A webhook receiver behind a stub fetch: answers each delivery with the next scripted status, then 200
+function receiver(statuses: number[] = []) {
+  const deliveries: Delivery[] = [];
+  const fetchImpl: typeof fetch = async (url, init) => {
+    deliveries.push({
+      url: String(url),
+      headers: init!.headers as Record<string, string>,
+      body: init!.body as string,
+      dispatcher: (init as { dispatcher?: unknown }).dispatcher,
+    });
+    return new Response(null, { status: statuses[deliveries.length - 1] ?? 200 });
+  };
+  return { deliveries, fetchImpl };
+}
+
+describe('AnalysisWorkerPool', () => {
+  beforeEach(() => resetDb());
+
+  it('runs a queued job and stores its result', async () => {
+    seed('analysisJob', { id: 'job-1', repoOwner: 'octocat', repoName: 'hello-world' });
+    const seen: string[] = [];
+    const pool = new AnalysisWorkerPool({
+      runner: async (job) => {
+        seen.push(`${job.id}:${db.analysisJob[0].status}`);
+        return outcome;
+      },
+    });
+
+    assert.equal(await pool.runOnce(), true);
+
+    const [job] = db.analysisJob;
+    assert.deepEqual(seen, ['job-1:RUNNING']);
+    assert.equal(job.status, 'DONE');
+    assert.equal(job.attempts, 1);
+    assert.ok(job.startedAt && job.finishedAt);
+    assert.deepEqual(JSON.parse(job.result!), { data: outcome.report, cache: outcome.cache });
+    assert.equal(await pool.runOnce(), false);
+  });
+
+  it('marks a job failed when the runner throws', async () => {
+    seed('analysisJob', { id: 'job-1' });
+    const pool = new AnalysisWorkerPool({
+      runner: async () => {
+        assert.equal(db.analysisJob[0].status, 'RUNNING');
+        throw new Error('Repository not found');
+      },
+    });
+
+    assert.equal(await pool.drain(), 1);
+
+    const [job] = db.analysisJob;
+    assert.equal(job.status, 'FAILED');
+    assert.equal(job.error, 'Repository not found');
+    assert.equal(job.result, null);
+    assert.ok(job.finishedAt);
+  });
+
+  it('drains the queue oldest first', async () => {
+    seed('analysisJob', { id: 'newer', createdAt: new Date(2_000) });
+    seed('analysisJob', { id: 'older', createdAt: new Date(1_000) });
+    const order: string[] = [];
+    const pool = new AnalysisWorkerPool({
+      runner: async (job) => {
+        order.push(job.id);
+        return outcome;
+      },
+    });
+
+    assert.equal(await pool.drain(), 2);
+    assert.deepEqual(order, ['older', 'newer']);
+  });
+
+  it('delivers a signed webhook once the job is done', async () => {
+    seed('user', { id: 'user-1', webhookSecret: 'whsec_owner' });
+    seed('analysisJob', { id: 'job-1', userId: 'user-1', webhookUrl: WEBHOOK_URL, webhookStatus: 'pending' });
+    const { deliveries, fetchImpl } = receiver([500]);
+    const pool = new AnalysisWorkerPool({ runner: async () => outcome, fetchImpl, retryDelayMs: 0 });
+
+    await pool.drain();
+
+    assert.equal(deliveries.length, 2);
+    const { url, headers, body, dispatcher } = deliveries[1];
+    assert.equal(url, WEBHOOK_URL);
+    assert.equal(headers['X-UnRepo-Event'], 'analysis.completed');
+    assert.equal(headers['X-UnRepo-Signature'], signWebhookPayload(body, headers['X-UnRepo-Timestamp'], 'whsec_owner'));
+    assert.ok(dispatcher, 'delivery is pinned to the checked address');
+
+    const payload = JSON.parse(body);
+    assert.equal(payload.job.id, 'job-1');
+    assert.equal(payload.job.status, 'done');
+
+    const [job] = db.analysisJob;
+    assert.equal(job.webhookStatus, 'delivered');
+    assert.equal(job.webhookAttempts, 2);
+    assert.ok(job.webhookDeliveredAt);
+  });
+
+  it('never delivers to a non-public address', async () => {
+    seed('analysisJob', { id: 'job-1', webhookUrl: 'http://127.0.0.1:8080/hook', webhookStatus: 'pending' });
+    const { deliveries, fetchImpl } = receiver();
+    const pool = new AnalysisWorkerPool({ runner: async () => outcome, fetchImpl, webhookSecret: 'whsec_test', retryDelayMs: 0 });
+
+    await pool.drain();
+
+    assert.equal(deliveries.length, 0);
+    assert.equal(db.analysisJob[0].webhookStatus, 'failed');
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    assert.equal(isPublicAddress('93.184.216.34'), true);
+    assert.equal(isPublicAddress('2606:4700::1'), true);
+  });
+
+  it('rejects internal addresses in every notation', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', 'localhost']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe('createPinnedDispatcher', () => {
+  it('connects to the pinned address and keeps the original Host header', async () => {
+    const server = http.createServer((req, res) => res.end(req.headers.host));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const dispatcher = createPinnedDispatcher([{ address: '127.0.0.1', family: 4 }]);
+
+    try {
+      // .invalid never resolves, so the response can only come from the pinned address
+      const response = await fetch(`http://rebound.invalid:${port}/hook`, { dispatcher });
+      assert.equal(await response.text(), `rebound.invalid:${port}`);
+    } finally {
+      await dispatcher.close();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
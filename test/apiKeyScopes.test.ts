@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiKeyScopeError, assertKeyScope, ipAllowed, isValidIpRule, scopesToColumns } from '../lib/apiKeyScopes.js';
+
+const unscoped = { allowedEndpoints: [], allowedRepositories: [], allowFileContents: true, allowedIps: [] };
+
+function refusedFor(scope: ApiKeyScopeError['scope']) {
+  return (error: unknown) => {
+    assert.ok(error instanceof ApiKeyScopeError);
+    assert.equal(error.status, 403);
+    assert.equal(error.scope, scope);
+    return true;
+  };
+}
+
+describe('assertKeyScope', () => {
+  it('lets a key without scopes do anything', () => {
+    assertKeyScope(unscoped, { endpoint: 'chatbot', repository: null, sendsFileContents: true });
+  });
+
+  it('limits endpoints', () => {
+    const key = { ...unscoped, allowedEndpoints: ['research', 'analyze'] };
+
+    assertKeyScope(key, { endpoint: 'analyze' });
+    assert.throws(() => assertKeyScope(key, { endpoint: 'chatbot' }), refusedFor('endpoint'));
+  });
+
+  it('limits repositories by owner or full name, ignoring case', () => {
+    const key = { ...unscoped, allowedRepositories: ['solana-labs', 'coral-xyz/anchor'] };
+
+    assertKeyScope(key, { endpoint: 'research', repository: { owner: 'Solana-Labs', repo: 'solana' } });
+    assertKeyScope(key, { endpoint: 'research', repository: { owner: 'coral-xyz', repo: 'Anchor' } });
+    assert.throws(
+      () => assertKeyScope(key, { endpoint: 'research', repository: { owner: 'coral-xyz', repo: 'sealevel' } }),
+      refusedFor('repository')
+    );
+    assert.throws(() => assertKeyScope(key, { endpoint: 'chatbot', repository: null }), refusedFor('repository'));
+  });
+
+  it('refuses file contents when the key does not allow them', () => {
+    const key = { ...unscoped, allowFileContents: false };
+
+    assertKeyScope(key, { endpoint: 'chatbot', sendsFileContents: false });
+    assert.throws(() => assertKeyScope(key, { endpoint: 'chatbot', sendsFileContents: true }), refusedFor('fileContents'));
+  });
+
+  it('limits callers to the IP allow-list, and refuses an unknown IP', () => {
+    const key = { ...unscoped, allowedIps: ['203.0.113.7', '10.0.0.0/8'] };
+
+    assertKeyScope(key, { endpoint: 'research', ip: '10.20.30.40' });
+    assert.throws(() => assertKeyScope(key, { endpoint: 'research', ip: '198.51.100.1' }), refusedFor('ip'));
+    assert.throws(() => assertKeyScope(key, { endpoint: 'research' }), refusedFor('ip'));
+  });
+});
+
+describe('IP allow-lists', () => {
+  it('matches addresses and CIDR ranges of both families', () => {
+    assert.equal(ipAllowed('203.0.113.7', ['203.0.113.7']), true);
+    assert.equal(ipAllowed('203.0.113.8', ['203.0.113.7']), false);
+    assert.equal(ipAllowed('192.168.1.200', ['192.168.1.0/24']), true);
+    assert.equal(ipAllowed('192.168.2.1', ['192.168.1.0/24']), false);
+    assert.equal(ipAllowed('2001:db8::1', ['2001:db8::/32']), true);
+    assert.equal(ipAllowed('2001:db9::1', ['2001:db8::/32']), false);
+  });
+
+  it('treats IPv4-mapped IPv6 clients as IPv4', () => {
+    assert.equal(ipAllowed('::ffff:10.1.2.3', ['10.0.0.0/8']), true);
+  });
+
+  it('refuses anything that is not an IP', () => {
+    assert.equal(ipAllowed('localhost', ['127.0.0.1']), false);
+    assert.equal(ipAllowed('', ['0.0.0.0/0']), false);
+  });
+
+  it('validates rules', () => {
+    for (const rule of ['10.0.0.1', '10.0.0.0/8', '::1', '2001:db8::/128']) {
+      assert.equal(isValidIpRule(rule), true, rule);
+    }
+    for (const rule of ['10.0.0.0/33', '2001:db8::/129', '10.0.0.0/-1', '10.0.0.0/8/1', 'example.com', '']) {
+      assert.equal(isValidIpRule(rule), false, rule);
+    }
+  });
+});
+
+describe('scopesToColumns', () => {
+  it('maps only the scopes given and lowercases repositories', () => {
+    assert.deepEqual(scopesToColumns({ repositories: ['Solana-Labs/Solana'], allowFileContents: false }), {
+      allowedRepositories: ['solana-labs/solana'],
+      allowFileContents: false,
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { db, resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { findApiKey, generateApiKey, getKeyPrefix, rotateApiKey } from '../lib/apiKeys.js';
+import { consumeApiKeyCall, getQuotaUsage } from '../lib/metering.js';
+
+const LEGACY_KEY = 'unrepo_research_0123456789abcdef0123456789abcdef';
+
+describe('API key hashing', () => {
+  beforeEach(() => {
+    resetDb();
+    seed('user', { id: 'user-1' });
+  });
+
+  it('stores a prefix and a bcrypt hash, never the plaintext', async () => {
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey('CHATBOT');
+
+    assert.match(plaintext, /^unrepo_chatbot_[0-9a-f]{64}$/);
+    assert.equal(keyPrefix, plaintext.slice(0, 'unrepo_chatbot_'.length + 12));
+    assert.ok(!keyHash.includes(plaintext));
+    assert.ok(await bcrypt.compare(plaintext, keyHash));
+  });
+
+  it('finds a key by its secret and not by a different secret with the same prefix', async () => {
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey('RESEARCH');
+    seed('apiKey', { id: 'key-1', userId: 'user-1', keyPrefix, keyHash });
+
+    const found = await findApiKey(plaintext);
+    assert.equal(found?.id, 'key-1');
+    assert.equal(found?.user.id, 'user-1');
+    assert.equal(found?.rotatedKey, null);
+
+    assert.equal(await findApiKey(`${keyPrefix}${'0'.repeat(52)}`), null);
+    assert.equal(await findApiKey('unrepo_research_short'), null);
+    assert.equal(await findApiKey('not-a-key'), null);
+  });
+
+  it('hashes a legacy plaintext key the first time it is used', async () => {
+    seed('apiKey', { id: 'key-1', userId: 'user-1', key: LEGACY_KEY, keyPrefix: getKeyPrefix(LEGACY_KEY)! });
+
+    assert.equal((await findApiKey(LEGACY_KEY))?.id, 'key-1');
+    assert.equal(db.apiKey[0].key, null);
+    assert.ok(await bcrypt.compare(LEGACY_KEY, db.apiKey[0].keyHash!));
+  });
+
+  it('ignores inactive, expired and other-type keys', async () => {
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey('RESEARCH');
+    const key = seed('apiKey', { id: 'key-1', userId: 'user-1', keyPrefix, keyHash, isActive: false });
+
+    assert.equal(await findApiKey(plaintext), null);
+
+    key.isActive = true;
+    key.expiresAt = new Date(Date.now() - 1000);
+    assert.equal(await findApiKey(plaintext), null);
+
+    key.expiresAt = null;
+    assert.equal(await findApiKey(plaintext, { type: 'CHATBOT' }), null);
+    assert.equal((await findApiKey(plaintext, { type: 'RESEARCH' }))?.id, 'key-1');
+  });
+});
+
+describe('rotateApiKey', () => {
+  let oldSecret: string;
+
+  beforeEach(async () => {
+    resetDb();
+    seed('user', { id: 'user-1' });
+    seed('user', { id: 'user-2' });
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey('CHATBOT');
+    oldSecret = plaintext;
+    seed('apiKey', { id: 'key-1', userId: 'user-1', type: 'CHATBOT', keyPrefix, keyHash, name: 'ci', rateLimit: 30, allowedIps: ['10.0.0.0/8'] });
+  });
+
+  it('issues a replacement with the same settings, usage and quota', async () => {
+    await consumeApiKeyCall({ id: 'key-1', userId: 'user-1' }, 'chat', 10);
+    seed('llmUsage', { apiKeyId: 'key-1', userId: 'user-1', costUsd: 0.5 });
+
+    const { plaintext, key, graceExpiresAt } = await rotateApiKey('key-1', 'user-1', 60_000, { ip: '10.1.2.3' });
+
+    assert.notEqual(key.id, 'key-1');
+    assert.equal(key.name, 'ci');
+    assert.equal(key.rateLimit, 30);
+    assert.deepEqual(key.allowedIps, ['10.0.0.0/8']);
+    assert.equal(key.usageCount, 1);
+    assert.equal((await findApiKey(plaintext))?.id, key.id);
+
+    assert.equal((await getQuotaUsage({ type: 'apiKey', id: key.id }, 'chat', 10)).used, 1);
+    assert.equal((await getQuotaUsage({ type: 'apiKey', id: 'key-1' }, 'chat', 10)).used, 0);
+    assert.equal(db.llmUsage[0].apiKeyId, key.id);
+
+    const old = db.apiKey.find((row) => row.id === 'key-1')!;
+    assert.equal(old.rotatedToId, key.id);
+    assert.deepEqual(old.graceExpiresAt, graceExpiresAt);
+    assert.equal(db.apiKeyRotation.length, 1);
+    assert.equal(db.apiKeyRotation[0].newKeyId, key.id);
+    assert.equal(db.apiKeyRotation[0].ip, '10.1.2.3');
+  });
+
+  it('lets the old key act as the replacement until the grace period ends', async () => {
+    const { key } = await rotateApiKey('key-1', 'user-1', 60_000);
+
+    const resolved = await findApiKey(oldSecret);
+    assert.equal(resolved?.id, key.id);
+    assert.equal(resolved?.rotatedKey?.keyPrefix, getKeyPrefix(oldSecret));
+
+    db.apiKey.find((row) => row.id === 'key-1')!.graceExpiresAt = new Date(Date.now() - 1000);
+    assert.equal(await findApiKey(oldSecret), null);
+  });
+
+  it('refuses to rotate a key twice or for another user', async () => {
+    await assert.rejects(rotateApiKey('key-1', 'user-2', 60_000), /not found/);
+
+    await rotateApiKey('key-1', 'user-1', 60_000);
+    await assert.rejects(rotateApiKey('key-1', 'user-1', 60_000), /already been rotated/);
+    assert.equal(db.apiKey.length, 2);
+  });
+});
@@ -0,0 +1,38 @@
+import { resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../lib/config.js';
+import { combineEntitlements, PREMIUM_PLAN } from '../lib/entitlements.js';
+
+const freeModels = config.entitlements.freeModels;
+
+describe('combineEntitlements models', () => {
+  beforeEach(() => resetDb());
+
+  it('gives callers without an entitlement the free models', () => {
+    assert.deepEqual(combineEntitlements([]).models, freeModels);
+  });
+
+  it('never gives a tier fewer models than the free plan', () => {
+    for (const tier of config.solana.tokenTiers) {
+      const { models } = combineEntitlements([seed('entitlement', { walletAddress: 'Wallet1111', plan: tier.id, source: 'TOKEN' })]);
+
+      for (const model of [...freeModels, ...tier.models]) {
+        assert.ok(models?.includes(model), `${tier.id} is missing ${model}`);
+      }
+    }
+  });
+
+  it('lets premium use every model', () => {
+    const premium = seed('entitlement', { userId: 'user-1', plan: PREMIUM_PLAN, source: 'PAYMENT' });
+    const bronze = seed('entitlement', { walletAddress: 'Wallet1111', plan: config.solana.tokenTiers[0].id, source: 'TOKEN' });
+
+    assert.equal(combineEntitlements([bronze, premium]).models, undefined);
+  });
+
+  it('ignores plans that no longer exist', () => {
+    const removed = seed('entitlement', { walletAddress: 'Wallet1111', plan: 'platinum', source: 'TOKEN' });
+
+    assert.deepEqual(combineEntitlements([removed]).models, freeModels);
+  });
+});
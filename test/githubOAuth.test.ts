@@ -0,0 +1,158 @@
+import { db, resetDb } from './setup.js';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../lib/config.js';
+import {
+  completeGitHubAuthorization,
+  GitHubOAuthError,
+  isAllowedRedirectUri,
+  newOAuthBinding,
+  setGitHubOAuthClient,
+  startGitHubAuthorization,
+  type GitHubOAuthClient,
+} from '../lib/githubOAuth.js';
+
+const profile = { id: '42', login: 'octocat', name: 'The Octocat', email: null, avatarUrl: null };
+
+function rejectedWith(message: RegExp) {
+  return (error: unknown) => error instanceof GitHubOAuthError && message.test(error.message);
+}
+
+describe('GitHub OAuth state', () => {
+  let exchanges: Array<{ code: string; codeVerifier: string; redirectUri: string | null }>;
+  let binding: string;
+
+  beforeEach(() => {
+    resetDb();
+    exchanges = [];
+    binding = newOAuthBinding();
+    const client: GitHubOAuthClient = {
+      exchangeCode: async (params) => {
+        exchanges.push(params);
+        return { accessToken: 'gho_test', scope: 'read:user,repo' };
+      },
+      fetchProfile: async (accessToken) => {
+        assert.equal(accessToken, 'gho_test');
+        return profile;
+      },
+    };
+    setGitHubOAuthClient(client);
+  });
+
+  after(() => setGitHubOAuthClient(null));
+
+  it('exchanges the code with the PKCE verifier for the client that started the flow', async () => {
+    const { url, state } = await startGitHubAuthorization({
+      purpose: 'login',
+      binding,
+      redirectUri: config.github.oauthRedirectUri,
+      privateRepos: true,
+    });
+    const challenge = new URL(url).searchParams.get('code_challenge');
+
+    const result = await completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding });
+
+    assert.deepEqual(result, { profile, accessToken: 'gho_test', scope: 'read:user,repo' });
+    assert.equal(exchanges.length, 1);
+    assert.equal(exchanges[0].code, 'code-1');
+    assert.equal(exchanges[0].redirectUri, config.github.oauthRedirectUri);
+    assert.ok(challenge && challenge !== exchanges[0].codeVerifier);
+    assert.notEqual(db.oAuthState[0].bindingHash, binding);
+  });
+
+  it('keeps the token only when the flow asked for private repositories', async () => {
+    const { state } = await startGitHubAuthorization({ purpose: 'login', binding });
+
+    assert.equal((await completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding })).accessToken, null);
+  });
+
+  it('rejects an unknown state', async () => {
+    await assert.rejects(
+      completeGitHubAuthorization({ code: 'code-1', state: 'made-up', purpose: 'login', binding }),
+      rejectedWith(/Unknown OAuth state/)
+    );
+    assert.equal(exchanges.length, 0);
+  });
+
+  it('rejects an expired state', async () => {
+    const { state } = await startGitHubAuthorization({ purpose: 'login', binding });
+    db.oAuthState[0].expiresAt = new Date(Date.now() - 1000);
+
+    await assert.rejects(
+      completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding }),
+      rejectedWith(/expired/)
+    );
+    assert.equal(exchanges.length, 0);
+  });
+
+  it('rejects a state that was already used', async () => {
+    const { state } = await startGitHubAuthorization({ purpose: 'login', binding });
+    await completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding });
+
+    await assert.rejects(
+      completeGitHubAuthorization({ code: 'code-2', state, purpose: 'login', binding }),
+      rejectedWith(/already been used/)
+    );
+    assert.equal(exchanges.length, 1);
+  });
+
+  it('rejects a state started by a different client', async () => {
+    const { state } = await startGitHubAuthorization({ purpose: 'login', binding });
+
+    for (const other of [newOAuthBinding(), null]) {
+      await assert.rejects(
+        completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding: other }),
+        rejectedWith(/different client/)
+      );
+    }
+    assert.equal(exchanges.length, 0);
+
+    // The rejected attempts did not use up the state
+    await completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding });
+  });
+
+  it('rejects a link state presented for another user or for sign-in', async () => {
+    const { state } = await startGitHubAuthorization({ purpose: 'link', binding, userId: 'user-1' });
+
+    await assert.rejects(
+      completeGitHubAuthorization({ code: 'code-1', state, purpose: 'link', binding, userId: 'user-2' }),
+      rejectedWith(/Unknown OAuth state/)
+    );
+    await assert.rejects(
+      completeGitHubAuthorization({ code: 'code-1', state, purpose: 'login', binding }),
+      rejectedWith(/Unknown OAuth state/)
+    );
+    await completeGitHubAuthorization({ code: 'code-1', state, purpose: 'link', binding, userId: 'user-1' });
+  });
+});
+
+describe('isAllowedRedirectUri', () => {
+  const registered = config.github.oauthRedirectUris;
+  const isProduction = config.isProduction;
+
+  afterEach(() => {
+    config.github.oauthRedirectUris = registered;
+    config.isProduction = isProduction;
+  });
+
+  it('allows only registered redirect URIs, matched exactly', () => {
+    const [callback] = registered;
+
+    assert.equal(isAllowedRedirectUri(callback), true);
+    assert.equal(isAllowedRedirectUri(`${callback}/../steal`), false);
+    assert.equal(isAllowedRedirectUri(`${callback}?next=https://evil.example`), false);
+    assert.equal(isAllowedRedirectUri(new URL('/other', callback).toString()), false);
+    assert.equal(isAllowedRedirectUri('https://evil.example/auth/callback'), false);
+  });
+
+  it('refuses loopback callbacks in production even when registered', () => {
+    config.github.oauthRedirectUris = [...registered, 'http://localhost:3000/auth/callback', 'http://127.0.0.1:3000/auth/callback'];
+
+    assert.equal(isAllowedRedirectUri('http://localhost:3000/auth/callback'), true);
+
+    config.isProduction = true;
+    assert.equal(isAllowedRedirectUri('http://localhost:3000/auth/callback'), false);
+    assert.equal(isAllowedRedirectUri('http://127.0.0.1:3000/auth/callback'), false);
+    assert.equal(isAllowedRedirectUri(registered[0]), true);
+  });
+});
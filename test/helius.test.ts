@@ -0,0 +1,108 @@
+import './setup.js';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTokenMint, getTokenTier, getTokenTiers, setStakedBalanceSource, toRawAmount, verifyTokenHolder } from '../lib/helius.js';
+import { createFixtureProvider, setSolanaRpcProvider, SolanaRpcUnavailableError } from '../lib/solanaRpc.js';
+
+const HOLDER = 'Holder1111111111111111111111111111111111111';
+const SPLIT = 'Split11111111111111111111111111111111111111';
+const EDGE = 'Edge111111111111111111111111111111111111111';
+const BELOW = 'Below11111111111111111111111111111111111111';
+const OTHER_MINT = 'OtherMint111111111111111111111111111111111';
+
+const [bronze] = getTokenTiers();
+
+const rpc = createFixtureProvider({
+  tokenAccounts: [
+    { owner: HOLDER, mint: getTokenMint(), amount: toRawAmount(400_000), decimals: 6, program: 'spl-token-2022' },
+    { owner: SPLIT, mint: getTokenMint(), amount: toRawAmount(300_000), decimals: 6, program: 'spl-token-2022' },
+    { owner: SPLIT, mint: getTokenMint(), amount: toRawAmount(700_000), decimals: 6, program: 'spl-token' },
+    { owner: SPLIT, mint: OTHER_MINT, amount: toRawAmount(5_000_000), decimals: 6 },
+    { owner: EDGE, mint: getTokenMint(), amount: toRawAmount(bronze.minBalance), decimals: 6 },
+    { owner: BELOW, mint: getTokenMint(), amount: toRawAmount(bronze.minBalance) - 1n, decimals: 6 },
+  ],
+});
+
+describe('verifyTokenHolder', () => {
+  beforeEach(() => setSolanaRpcProvider(rpc));
+  after(() => setSolanaRpcProvider(undefined));
+
+  it('sums every token account of the mint and ignores other mints', async () => {
+    const result = await verifyTokenHolder(SPLIT);
+
+    assert.equal(result.status === 'verified' && result.tokenBalance, 1_000_000);
+    assert.equal(result.status === 'verified' && result.tier?.id, 'gold');
+  });
+
+  it('places holders by exact base units at the tier boundary', async () => {
+    const edge = await verifyTokenHolder(EDGE);
+    assert.equal(edge.status === 'verified' && edge.tier?.id, bronze.id);
+
+    const below = await verifyTokenHolder(BELOW);
+    assert.equal(below.status === 'verified' && below.isTokenHolder, false);
+    assert.equal(below.status === 'verified' && below.tier, null);
+  });
+
+  it('verifies a wallet without token accounts as holding nothing', async () => {
+    const result = await verifyTokenHolder('Empty111111111111111111111111111111111111111');
+
+    assert.equal(result.status, 'verified');
+    assert.equal(result.status === 'verified' && result.rawBalance, 0n);
+  });
+
+  it('reports the balance as unknown on an outage or without a provider', async () => {
+    rpc.failWith = new SolanaRpcUnavailableError('fixture outage');
+    assert.equal((await verifyTokenHolder(HOLDER)).status, 'unknown');
+    rpc.failWith = null;
+
+    setSolanaRpcProvider(null);
+    assert.equal((await verifyTokenHolder(HOLDER)).status, 'unknown');
+  });
+
+  it('looks tiers up by id', () => {
+    assert.equal(getTokenTier('silver')?.name, 'Silver');
+    assert.equal(getTokenTier('platinum'), null);
+    assert.equal(getTokenTier(null), null);
+  });
+});
+
+describe('staked balances', () => {
+  beforeEach(() => setSolanaRpcProvider(rpc));
+  afterEach(() => setStakedBalanceSource(undefined));
+  after(() => setSolanaRpcProvider(undefined));
+
+  it('counts no staked tokens by default', async () => {
+    const result = await verifyTokenHolder(HOLDER);
+
+    assert.equal(result.status, 'verified');
+    assert.equal(result.status === 'verified' && result.rawBalance, toRawAmount(400_000));
+    assert.equal(result.status === 'verified' && result.tier?.id, 'bronze');
+  });
+
+  it('adds staked tokens from the configured source', async () => {
+    setStakedBalanceSource({
+      name: 'test-staking',
+      getStakedBalance: async (provider, wallet, mint) => {
+        assert.equal(provider, rpc);
+        assert.equal(mint, getTokenMint());
+        return wallet === HOLDER ? toRawAmount(150_000) : 0n;
+      },
+    });
+
+    const result = await verifyTokenHolder(HOLDER);
+
+    assert.equal(result.status === 'verified' && result.tokenBalance, 550_000);
+    assert.equal(result.status === 'verified' && result.tier?.id, 'silver');
+  });
+
+  it('reports the balance as unknown when the staked source is unavailable', async () => {
+    setStakedBalanceSource({
+      name: 'test-staking',
+      getStakedBalance: async () => {
+        throw new SolanaRpcUnavailableError('staking program unreachable');
+      },
+    });
+
+    assert.equal((await verifyTokenHolder(HOLDER)).status, 'unknown');
+  });
+});
@@ -0,0 +1,99 @@
+import { db, resetDb, seed } from './setup.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../lib/config.js';
+import { consumeApiKeyCall, consumeQuota, getQuotaUsage, QuotaExceededError, quotaPeriod } from '../lib/metering.js';
+
+const wallet = { type: 'wallet' as const, id: 'Wallet1111' };
+const quotas = config.quotas as { resetPeriod: 'month' | 'none' };
+
+describe('consumeQuota', () => {
+  beforeEach(() => resetDb());
+  afterEach(() => {
+    quotas.resetPeriod = 'none';
+  });
+
+  it('counts calls until the limit, then refuses without counting', async () => {
+    for (let call = 1; call <= 3; call++) {
+      const usage = await consumeQuota({ principal: wallet, meter: 'research', limit: 3 });
+      assert.equal(usage.used, call);
+      assert.equal(usage.remaining, 3 - call);
+    }
+
+    await assert.rejects(consumeQuota({ principal: wallet, meter: 'research', limit: 3 }), (error: unknown) => {
+      assert.ok(error instanceof QuotaExceededError);
+      assert.equal(error.status, 429);
+      assert.deepEqual(error.usage, { meter: 'research', used: 3, limit: 3, remaining: 0, resetsAt: null });
+      return true;
+    });
+    assert.equal((await getQuotaUsage(wallet, 'research', 3)).used, 3);
+  });
+
+  it('never lets concurrent calls go over the limit', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => consumeQuota({ principal: wallet, meter: 'chat', limit: 4 }))
+    );
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 4);
+    assert.ok(results.every((result) => result.status === 'fulfilled' || result.reason instanceof QuotaExceededError));
+    assert.equal(db.usageCounter.length, 1);
+    assert.equal(db.usageCounter[0].used, 4);
+  });
+
+  it('keeps meters and principals apart and counts without a limit', async () => {
+    await consumeQuota({ principal: wallet, meter: 'research', limit: 1 });
+    await consumeQuota({ principal: wallet, meter: 'chat', limit: 1 });
+    await consumeQuota({ principal: { type: 'wallet', id: 'Wallet2222' }, meter: 'research', limit: 1 });
+
+    for (let call = 0; call < 5; call++) {
+      await consumeQuota({ principal: { type: 'user', id: 'user-1' }, meter: 'research', limit: null });
+    }
+
+    assert.equal((await getQuotaUsage({ type: 'user', id: 'user-1' }, 'research', null)).used, 5);
+    assert.equal(db.usageCounter.length, 4);
+  });
+
+  it('keeps one lifetime counter by default', async () => {
+    await consumeQuota({ principal: wallet, meter: 'research', limit: 1 }, new Date('2026-01-15T00:00:00Z'));
+
+    await assert.rejects(
+      consumeQuota({ principal: wallet, meter: 'research', limit: 1 }, new Date('2026-02-15T00:00:00Z')),
+      QuotaExceededError
+    );
+    assert.deepEqual(quotaPeriod(), { start: new Date(0), resetsAt: null });
+  });
+
+  it('starts over each month with QUOTA_RESET_PERIOD=month', async () => {
+    quotas.resetPeriod = 'month';
+
+    await consumeQuota({ principal: wallet, meter: 'research', limit: 1 }, new Date('2026-01-31T23:59:59Z'));
+    const february = await consumeQuota({ principal: wallet, meter: 'research', limit: 1 }, new Date('2026-02-01T00:00:00Z'));
+
+    assert.equal(february.used, 1);
+    assert.deepEqual(february.resetsAt, new Date('2026-03-01T00:00:00Z'));
+  });
+});
+
+describe('consumeApiKeyCall', () => {
+  beforeEach(() => {
+    resetDb();
+    seed('apiKey', { id: 'key-1', userId: 'user-1', usageCount: 7 });
+  });
+
+  it('counts the call on the key, on its account and in usageCount', async () => {
+    const usage = await consumeApiKeyCall({ id: 'key-1', userId: 'user-1' }, 'chat', 5);
+
+    assert.equal(usage.used, 1);
+    assert.equal(usage.limit, 5);
+    assert.equal((await getQuotaUsage({ type: 'user', id: 'user-1' }, 'chat', null)).used, 1);
+    assert.equal(db.apiKey[0].usageCount, 8);
+  });
+
+  it('counts nothing when the key is over its quota', async () => {
+    await consumeApiKeyCall({ id: 'key-1', userId: 'user-1' }, 'chat', 1);
+
+    await assert.rejects(consumeApiKeyCall({ id: 'key-1', userId: 'user-1' }, 'chat', 1), QuotaExceededError);
+    assert.equal((await getQuotaUsage({ type: 'user', id: 'user-1' }, 'chat', null)).used, 1);
+    assert.equal(db.apiKey[0].usageCount, 8);
+  });
+});
@@ -0,0 +1,132 @@
+import { db, resetDb, seed } from './setup.js';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaymentError, verifyPayment } from '../lib/payments.js';
+import { createFixtureProvider, setSolanaRpcProvider, SolanaRpcUnavailableError, type FixtureTransaction } from '../lib/solanaRpc.js';
+
+const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RECIPIENT = 'Merchant1111111111111111111111111111111111';
+const PAYER = 'Payer11111111111111111111111111111111111111';
+const REFERENCE = 'Reference111111111111111111111111111111111';
+
+function transfer(amount: number, overrides: Partial<FixtureTransaction> = {}): FixtureTransaction {
+  return {
+    accountKeys: [PAYER, RECIPIENT, REFERENCE],
+    tokenBalances: [
+      { owner: PAYER, mint: MINT, decimals: 6, pre: '1000000', post: String(1000000 - amount) },
+      { owner: RECIPIENT, mint: MINT, decimals: 6, pre: '0', post: String(amount) },
+    ],
+    ...overrides,
+  };
+}
+
+const rpc = createFixtureProvider({
+  transactions: {
+    paid: transfer(10000),
+    other: transfer(10000),
+    short: transfer(9999),
+    unreferenced: transfer(10000, { accountKeys: [PAYER, RECIPIENT] }),
+    confirmed: transfer(10000, { confirmationStatus: 'confirmed' }),
+    reverted: transfer(10000, { err: { InstructionError: [0, 'Custom'] } }),
+    late: transfer(10000, { blockTime: Math.floor(Date.now() / 1000) + 3600 }),
+  },
+});
+
+async function rejectsWith(promise: Promise<unknown>, status: number, retryable = false) {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof PaymentError);
+    assert.equal(error.status, status);
+    assert.equal(error.retryable, retryable);
+    return true;
+  });
+}
+
+describe('verifyPayment', () => {
+  beforeEach(() => {
+    resetDb();
+    rpc.failWith = null;
+    setSolanaRpcProvider(rpc);
+    seed('user', { id: 'user-1' });
+    seed('payment', {
+      id: 'payment-1',
+      userId: 'user-1',
+      amount: 0.01,
+      reference: REFERENCE,
+      recipient: RECIPIENT,
+      mint: MINT,
+      amountRaw: '10000',
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+    });
+  });
+
+  after(() => setSolanaRpcProvider(undefined));
+
+  it('verifies a transfer of the amount to the recipient and grants premium', async () => {
+    const payment = await verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' });
+
+    assert.equal(payment.status, 'VERIFIED');
+    assert.equal(payment.transactionHash, 'paid');
+    assert.equal(payment.walletAddress, PAYER);
+    assert.equal(db.user[0].paymentVerified, true);
+    assert.equal(db.entitlement.length, 1);
+    assert.equal(db.entitlement[0].plan, 'premium');
+    assert.equal(db.entitlement[0].paymentId, 'payment-1');
+  });
+
+  it('returns the verified payment again for the same signature, and refuses another', async () => {
+    await verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' });
+
+    const again = await verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' });
+    assert.equal(again.status, 'VERIFIED');
+    assert.equal(db.entitlement.length, 1);
+
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'other' }), 409);
+  });
+
+  it('grants one entitlement when the same transfer is verified concurrently', async () => {
+    const results = await Promise.allSettled([
+      verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' }),
+      verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' }),
+    ]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+    assert.equal(db.entitlement.length, 1);
+  });
+
+  it('refuses a transfer already used for another payment', async () => {
+    seed('payment', { id: 'payment-0', userId: 'user-1', reference: 'Older', status: 'VERIFIED', transactionHash: 'paid' });
+
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' }), 409);
+  });
+
+  it('refuses transfers that do not pay this intent', async () => {
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'short' }), 422);
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'unreferenced' }), 422);
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'reverted' }), 422);
+    assert.equal(db.payment[0].status, 'PENDING');
+    assert.equal(db.entitlement.length, 0);
+  });
+
+  it('asks to retry transactions that are missing or not finalized yet', async () => {
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'unknown' }), 404, true);
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'confirmed' }), 409, true);
+  });
+
+  it('fails the intent when the transfer was sent after it expired', async () => {
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'late' }), 410);
+    assert.equal(db.payment[0].status, 'FAILED');
+  });
+
+  it('answers 503 when the RPC is unavailable or not configured', async () => {
+    rpc.failWith = new SolanaRpcUnavailableError('fixture outage');
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' }), 503, true);
+
+    setSolanaRpcProvider(null);
+    await rejectsWith(verifyPayment('user-1', { reference: REFERENCE, signature: 'paid' }), 503, true);
+    assert.equal(db.payment[0].status, 'PENDING');
+  });
+
+  it('only lets the owner verify a payment', async () => {
+    await rejectsWith(verifyPayment('user-2', { reference: REFERENCE, signature: 'paid' }), 404);
+  });
+});
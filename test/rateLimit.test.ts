@@ -0,0 +1,131 @@
+import { resetDb, seed } from './setup.js';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import type { User } from '@prisma/client';
+import { generateApiKey } from '../lib/apiKeys.js';
+import { MemoryRateLimitStore, RATE_LIMITS, rateLimit, setRateLimitStore } from '../lib/rateLimit.js';
+import { createSession } from '../lib/sessions.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WALLET = 'Wallet1111111111111111111111111111111111111';
+
+// Records the window keys it is asked about
+class RecordingStore extends MemoryRateLimitStore {
+  keys: string[] = [];
+
+  async hit(key: string, limit: number, windowMs: number) {
+    this.keys.push(key);
+    return super.hit(key, limit, windowMs);
+  }
+}
+
+interface Outcome {
+  status: number | null; // null when the request was let through
+  headers: Record<string, string>;
+}
+
+async function call(endpoint: 'research' | 'chatbot', headers: Record<string, string> = {}): Promise<Outcome> {
+  const outcome: Outcome = { status: null, headers: {} };
+  const req = { headers, ip: '203.0.113.9', socket: {} } as unknown as Request;
+  const res = {
+    setHeader: (name: string, value: string) => {
+      outcome.headers[name] = value;
+    },
+    status: (status: number) => {
+      outcome.status = status;
+      return { json: () => undefined };
+    },
+  } as unknown as Response;
+
+  await rateLimit(endpoint)(req, res, () => undefined);
+  return outcome;
+}
+
+describe('MemoryRateLimitStore', () => {
+  it('slides the window: each request frees its slot an hour after it was made', async () => {
+    let now = 1_000_000;
+    const store = new MemoryRateLimitStore(() => now);
+
+    assert.equal((await store.hit('k', 2, HOUR_MS)).remaining, 1);
+    now += 20 * 60 * 1000;
+    assert.equal((await store.hit('k', 2, HOUR_MS)).remaining, 0);
+
+    const blocked = await store.hit('k', 2, HOUR_MS);
+    assert.equal(blocked.allowed, false);
+    assert.deepEqual(blocked.resetAt, new Date(1_000_000 + HOUR_MS));
+
+    now = 1_000_000 + HOUR_MS;
+    const freed = await store.hit('k', 2, HOUR_MS);
+    assert.equal(freed.allowed, true);
+    assert.deepEqual(freed.resetAt, new Date(1_000_000 + 20 * 60 * 1000 + HOUR_MS));
+    assert.equal((await store.hit('k', 2, HOUR_MS)).allowed, false);
+  });
+
+  it('keeps keys apart', async () => {
+    const store = new MemoryRateLimitStore(() => 0);
+
+    await store.hit('a', 1, HOUR_MS);
+    assert.equal((await store.hit('b', 1, HOUR_MS)).allowed, true);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  let store: RecordingStore;
+  let user: User;
+
+  beforeEach(() => {
+    resetDb();
+    store = new RecordingStore(() => Date.now());
+    setRateLimitStore(store);
+    user = seed('user', { id: 'user-1', walletAddress: WALLET });
+  });
+
+  after(() => setRateLimitStore(null));
+
+  it("enforces a key's own rateLimit before the account window, with headers", async () => {
+    const { plaintext, keyPrefix, keyHash } = await generateApiKey('RESEARCH');
+    seed('apiKey', { id: 'key-1', userId: 'user-1', keyPrefix, keyHash, rateLimit: 2 });
+
+    const first = await call('research', { 'x-api-key': plaintext });
+    assert.equal(first.status, null);
+    assert.equal(first.headers['X-RateLimit-Limit'], '2');
+    assert.equal(first.headers['X-RateLimit-Remaining'], '1');
+    assert.ok(Number(first.headers['X-RateLimit-Reset']) >= Math.floor((Date.now() + HOUR_MS) / 1000));
+    assert.equal(first.headers['Retry-After'], undefined);
+
+    await call('research', { 'x-api-key': plaintext });
+    const blocked = await call('research', { 'x-api-key': plaintext });
+    assert.equal(blocked.status, 429);
+    assert.equal(blocked.headers['X-RateLimit-Remaining'], '0');
+    assert.ok(Number(blocked.headers['Retry-After']) > HOUR_MS / 1000 - 60);
+
+    // The blocked call did not spend the account's budget
+    assert.deepEqual(store.keys.slice(-1), ['rate:api:key-1']);
+    assert.equal(store.keys.filter((key) => key === 'rate:user:user-1:research').length, 2);
+  });
+
+  it('limits unknown callers by IP at the free tier', async () => {
+    for (let request = 0; request < RATE_LIMITS.free.chatbot; request++) {
+      assert.equal((await call('chatbot')).status, null);
+    }
+
+    const blocked = await call('chatbot', { 'x-api-key': 'unrepo_chatbot_not-a-real-key-at-all' });
+    assert.equal(blocked.status, 429);
+    assert.ok(store.keys.every((key) => key === 'rate:ip:203.0.113.9:chatbot'));
+  });
+
+  it('keys a wallet caller on the wallet only when signed in as that wallet', async () => {
+    await call('research', { 'x-wallet-address': WALLET });
+    assert.deepEqual(store.keys, ['rate:ip:203.0.113.9:research']);
+
+    const other = seed('user', { id: 'user-2', walletAddress: 'Wallet2222222222222222222222222222222222222' });
+    const { accessToken: otherToken } = await createSession(other);
+    await call('research', { 'x-wallet-address': WALLET, authorization: `Bearer ${otherToken}` });
+    assert.equal(store.keys[1], 'rate:ip:203.0.113.9:research');
+
+    const { accessToken } = await createSession(user);
+    await call('research', { 'x-wallet-address': WALLET, authorization: `Bearer ${accessToken}` });
+    assert.equal(store.keys[2], `rate:wallet:${WALLET}:research`);
+  });
+});
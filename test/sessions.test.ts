@@ -0,0 +1,57 @@
+import { db, resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { User } from '@prisma/client';
+import { createSession, refreshSession, SessionError, verifyAccessToken } from '../lib/sessions.js';
+
+
+describe('refreshSession', () => {
+  let user: User;
+
+  beforeEach(() => {
+    resetDb();
+    user = seed('user', { id: 'user-1', walletAddress: 'Wallet1111' });
+  });
+
+  it('rotates the refresh token and keeps the session', async () => {
+    const first = await createSession(user);
+    const second = await refreshSession(first.refreshToken);
+
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(db.session.length, 1);
+    assert.equal((await verifyAccessToken(second.accessToken)).user.id, user.id);
+
+    const third = await refreshSession(second.refreshToken);
+    assert.notEqual(third.refreshToken, second.refreshToken);
+  });
+
+  it('revokes the session when a replaced refresh token is used again', async () => {
+    const first = await createSession(user);
+    const second = await refreshSession(first.refreshToken);
+
+    await assert.rejects(refreshSession(first.refreshToken), SessionError);
+    assert.ok(db.session[0].revokedAt);
+
+    // The thief and the owner are both signed out
+    await assert.rejects(refreshSession(second.refreshToken), SessionError);
+    await assert.rejects(verifyAccessToken(second.accessToken), SessionError);
+  });
+
+  it('lets only one of two concurrent refreshes with the same token succeed', async () => {
+    const { refreshToken } = await createSession(user);
+
+    const results = await Promise.allSettled([refreshSession(refreshToken), refreshSession(refreshToken)]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+    const failed = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+    assert.ok(failed.reason instanceof SessionError);
+  });
+
+  it('rejects unknown and expired refresh tokens', async () => {
+    await assert.rejects(refreshSession('unrepo_refresh_unknown'), SessionError);
+
+    const { refreshToken } = await createSession(user);
+    db.session[0].expires = new Date(Date.now() - 1000);
+    await assert.rejects(refreshSession(refreshToken), SessionError);
+  });
+});
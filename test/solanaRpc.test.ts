@@ -0,0 +1,109 @@
+import './setup.js';
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTokenMint, toRawAmount, verifyTokenHolder } from '../lib/helius.js';
+import {
+  createFailoverProvider,
+  createFixtureProvider,
+  createHeliusProvider,
+  createJsonRpcProvider,
+  getTokenAccountsByOwner,
+  setSolanaRpcProvider,
+  SolanaRpcError,
+  SolanaRpcUnavailableError,
+} from '../lib/solanaRpc.js';
+
+const HOLDER = 'Holder1111111111111111111111111111111111111';
+
+const chain = createFixtureProvider({
+  tokenAccounts: [{ owner: HOLDER, mint: getTokenMint(), amount: toRawAmount(1_000_000), decimals: 6 }],
+});
+
+type Answer = 'answer' | 'network' | 'http-503' | 'rpc-error';
+
+// A JSON-RPC endpoint behind a stub fetch: each call takes the next scripted answer, then answers from the fixtures
+function endpoint(name: string, script: Answer[] = []) {
+  const stub = {
+    calls: 0,
+    provider: createJsonRpcProvider(`https://${name}.example`, {
+      name,
+      fetchImpl: async (_url, init) => {
+        const answer = script[stub.calls++] ?? 'answer';
+        const { id, method, params } = JSON.parse(init!.body as string);
+
+        switch (answer) {
+          case 'network': throw new TypeError('fetch failed');
+          case 'http-503': return new Response('unavailable', { status: 503 });
+          case 'rpc-error': return Response.json({ jsonrpc: '2.0', id, error: { code: -32602, message: 'Invalid params' } });
+          default: return Response.json({ jsonrpc: '2.0', id, result: await chain.request(method, params) });
+        }
+      },
+    }),
+  };
+  return stub;
+}
+
+describe('Solana RPC failover', () => {
+  after(() => setSolanaRpcProvider(undefined));
+
+  it('fails over to the next endpoint after transport errors', async () => {
+    const primary = endpoint('primary', ['network', 'http-503']);
+    const secondary = endpoint('secondary');
+    setSolanaRpcProvider(createFailoverProvider([primary.provider, secondary.provider], { retries: 1, retryDelayMs: 0 }));
+
+    const result = await verifyTokenHolder(HOLDER);
+
+    assert.equal(result.status === 'verified' && result.tier?.id, 'gold');
+    assert.equal(primary.calls, 2);
+    assert.equal(secondary.calls, 1);
+  });
+
+  it('retries an endpoint before failing over', async () => {
+    const primary = endpoint('primary', ['network']);
+    const secondary = endpoint('secondary');
+    const rpc = createFailoverProvider([primary.provider, secondary.provider], { retries: 1, retryDelayMs: 0 });
+
+    assert.equal((await getTokenAccountsByOwner(rpc, HOLDER, getTokenMint())).length, 1);
+    assert.equal(primary.calls, 2);
+    assert.equal(secondary.calls, 0);
+  });
+
+  it('returns JSON-RPC errors without retrying or failing over', async () => {
+    const primary = endpoint('primary', ['rpc-error']);
+    const secondary = endpoint('secondary');
+    const rpc = createFailoverProvider([primary.provider, secondary.provider], { retries: 2, retryDelayMs: 0 });
+
+    await assert.rejects(getTokenAccountsByOwner(rpc, HOLDER, getTokenMint()), (error: unknown) => {
+      assert.ok(error instanceof SolanaRpcError);
+      assert.equal(error.code, -32602);
+      return true;
+    });
+    assert.equal(primary.calls, 1);
+    assert.equal(secondary.calls, 0);
+  });
+
+  it('reports the balance as unknown, not zero, when every endpoint is down', async () => {
+    const primary = endpoint('primary', ['network', 'network']);
+    const secondary = endpoint('secondary', ['http-503', 'http-503']);
+    const rpc = createFailoverProvider([primary.provider, secondary.provider], { retries: 1, retryDelayMs: 0 });
+
+    await assert.rejects(getTokenAccountsByOwner(rpc, HOLDER, getTokenMint()), SolanaRpcUnavailableError);
+
+    setSolanaRpcProvider(createFailoverProvider([endpoint('down', ['network']).provider], { retries: 0 }));
+    assert.equal((await verifyTokenHolder(HOLDER)).status, 'unknown');
+  });
+
+  it('keeps the Helius API key out of error messages', async () => {
+    const helius = createHeliusProvider('secret-helius-key', {
+      fetchImpl: async () => {
+        throw new TypeError('fetch failed');
+      },
+    });
+
+    await assert.rejects(helius.request('getSlot', []), (error: unknown) => {
+      assert.ok(error instanceof SolanaRpcUnavailableError);
+      assert.ok(!error.message.includes('secret-helius-key'));
+      return true;
+    });
+  });
+});
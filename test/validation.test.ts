@@ -0,0 +1,23 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeRequestSchema } from '../lib/validation.js';
+
+describe('analyzeRequestSchema', () => {
+  it('accepts owner and repo and defaults the rest', () => {
+    assert.deepEqual(analyzeRequestSchema.parse({ owner: 'solana-labs', repo: 'solana', branch: '' }), {
+      owner: 'solana-labs',
+      repo: 'solana',
+      branch: undefined,
+      forceRefresh: false,
+    });
+  });
+
+  it('rejects missing and non-string owner or repo', () => {
+    for (const body of [{}, { owner: 'solana-labs' }, { owner: ['a'], repo: 'b' }, { owner: 'a', repo: { $ne: '' } }]) {
+      const parsed = analyzeRequestSchema.safeParse(body);
+      assert.equal(parsed.success, false);
+      assert.equal(parsed.error?.issues[0].message, 'Missing required fields: owner and repo');
+    }
+  });
+});
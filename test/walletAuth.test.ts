@@ -0,0 +1,131 @@
+import { db, resetDb, seed } from './setup.js';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { CallerAuthError, createSession, verifyWalletSession } from '../lib/sessions.js';
+import { createWalletChallenge, getWalletAuthDomain, redeemWalletChallenge, upsertSolanaUser } from '../lib/walletAuth.js';
+
+function newWallet() {
+  const keys = nacl.sign.keyPair();
+  return {
+    address: bs58.encode(keys.publicKey),
+    sign: (message: string) => bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keys.secretKey)),
+  };
+}
+
+function invalidWith(error: RegExp) {
+  return (result: Awaited<ReturnType<typeof redeemWalletChallenge>>) => {
+    assert.equal(result.valid, false);
+    assert.match(!result.valid ? result.error : '', error);
+  };
+}
+
+describe('wallet challenges', () => {
+  const wallet = newWallet();
+
+  beforeEach(() => resetDb());
+
+  it('issues a message bound to the wallet, the domain and a nonce', async () => {
+    const challenge = await createWalletChallenge(wallet.address);
+
+    assert.match(challenge.message, new RegExp(`^${getWalletAuthDomain()} wants you to sign in`));
+    assert.ok(challenge.message.includes(`\n${wallet.address}\n`));
+    assert.ok(challenge.message.includes(`Nonce: ${challenge.nonce}`));
+    assert.equal(db.walletChallenge.length, 1);
+  });
+
+  it('redeems a signed challenge once', async () => {
+    const { message } = await createWalletChallenge(wallet.address);
+    const signed = { walletAddress: wallet.address, message, signature: wallet.sign(message) };
+
+    assert.deepEqual(await redeemWalletChallenge(signed), { valid: true, bypassed: false });
+    invalidWith(/already been used/)(await redeemWalletChallenge(signed));
+  });
+
+  it('lets only one of two concurrent redemptions succeed', async () => {
+    const { message } = await createWalletChallenge(wallet.address);
+    const signed = { walletAddress: wallet.address, message, signature: wallet.sign(message) };
+
+    const results = await Promise.all([redeemWalletChallenge(signed), redeemWalletChallenge(signed)]);
+    assert.equal(results.filter((result) => result.valid).length, 1);
+  });
+
+  it('refuses expired challenges, bad signatures and messages it did not issue', async () => {
+    const other = newWallet();
+    const { message } = await createWalletChallenge(wallet.address);
+
+    invalidWith(/Invalid signature/)(await redeemWalletChallenge({ walletAddress: wallet.address, message, signature: other.sign(message) }));
+    invalidWith(/Invalid signature/)(await redeemWalletChallenge({ walletAddress: wallet.address, message, signature: 'not-base58!' }));
+    invalidWith(/Unknown challenge/)(await redeemWalletChallenge({ walletAddress: other.address, message, signature: other.sign(message) }));
+
+    const edited = message.replace(/Expiration Time: .*/, 'Expiration Time: 2099-01-01T00:00:00.000Z');
+    invalidWith(/Unknown challenge/)(await redeemWalletChallenge({ walletAddress: wallet.address, message: edited, signature: wallet.sign(edited) }));
+
+    db.walletChallenge[0].expiresAt = new Date(Date.now() - 1000);
+    invalidWith(/expired/)(await redeemWalletChallenge({ walletAddress: wallet.address, message, signature: wallet.sign(message) }));
+  });
+
+  it('clears used and expired challenges when issuing a new one', async () => {
+    const { message } = await createWalletChallenge(wallet.address);
+    await redeemWalletChallenge({ walletAddress: wallet.address, message, signature: wallet.sign(message) });
+    await createWalletChallenge(wallet.address);
+    assert.equal(db.walletChallenge.length, 1);
+
+    db.walletChallenge[0].expiresAt = new Date(Date.now() - 1000);
+    await createWalletChallenge(wallet.address);
+    assert.equal(db.walletChallenge.length, 1);
+  });
+});
+
+describe('Sign-in with Solana', () => {
+  const wallet = newWallet();
+
+  beforeEach(() => resetDb());
+
+  // The /auth/solana/login steps: redeem the challenge, find or create the user, open a session
+  async function signIn(address = wallet.address) {
+    const { message } = await createWalletChallenge(address);
+    assert.equal((await redeemWalletChallenge({ walletAddress: address, message, signature: wallet.sign(message) })).valid, true);
+    const user = await upsertSolanaUser(address);
+    return { user, tokens: await createSession(user) };
+  }
+
+  it('creates a user for a new wallet, carrying over its anonymous usage and holder status', async () => {
+    const checkedAt = new Date();
+    seed('walletUser', { walletAddress: wallet.address, researchUsed: 1, chatUsed: 3, isTokenHolder: true, tokenTier: 'gold', lastTokenCheck: checkedAt });
+
+    const { user } = await signIn();
+
+    assert.equal(user.authMethod, 'SOLANA');
+    assert.equal(user.walletAddress, wallet.address);
+    assert.equal(user.researchUsed, 1);
+    assert.equal(user.chatUsed, 3);
+    assert.equal(user.tokenTier, 'gold');
+    assert.ok(user.lastLogin);
+  });
+
+  it('signs an existing user back in to the same account without losing usage', async () => {
+    seed('user', { id: 'user-1', walletAddress: wallet.address, chatUsed: 4, tokenTier: 'silver', lastTokenCheck: new Date() });
+    seed('walletUser', { walletAddress: wallet.address, chatUsed: 2, tokenTier: null, lastTokenCheck: new Date(0) });
+
+    const { user } = await signIn();
+
+    assert.equal(user.id, 'user-1');
+    assert.equal(db.user.length, 1);
+    assert.equal(user.chatUsed, 4);
+    assert.equal(user.tokenTier, 'silver');
+  });
+
+  it('accepts the access token as proof of the wallet, and only for that wallet', async () => {
+    const { user, tokens } = await signIn();
+    const authorization = `Bearer ${tokens.accessToken}`;
+
+    assert.equal((await verifyWalletSession(authorization, wallet.address)).id, user.id);
+
+    const refused = (status: number) => (error: unknown) => error instanceof CallerAuthError && error.status === status;
+    await assert.rejects(verifyWalletSession(authorization, newWallet().address), refused(403));
+    await assert.rejects(verifyWalletSession(undefined, wallet.address), refused(401));
+    await assert.rejects(verifyWalletSession('Bearer not-a-token', wallet.address), refused(401));
+  });
+});
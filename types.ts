@@ -39,6 +39,8 @@ export interface RepositoryData {
   stars: number;
   forks: number;
   language?: string;
+  license?: string;
   branch: string;
   url: string;
+  isPrivate?: boolean;
 }